@@ -16,6 +16,9 @@ rm -rf backups/*
 echo "Clearing logs..."
 rm -rf logs/*
 
+echo "Clearing server state..."
+rm -rf state/*
+
 echo "Deleting configs (.env, config.json)..."
 rm -f .env config.json
 
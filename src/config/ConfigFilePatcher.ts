@@ -0,0 +1,437 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { constants } from 'fs';
+import { parseDocument } from 'yaml';
+
+export type ConfigFileParser = 'properties' | 'yaml' | 'json' | 'ini' | 'xml' | 'plain-regex';
+
+/**
+ * One config file an egg wants rewritten before every start.
+ *
+ * `find` maps key paths to value templates. Paths are dot separated with
+ * numeric segments for list items (`listeners.0.host`); for ini files the
+ * first segment is the section, for xml the last segment may be an attribute
+ * (`Server.Network@port`). For plain-regex files the keys are regular
+ * expressions and the values their replacements.
+ */
+export interface ConfigFileDefinition {
+    file: string;                // Relative to the server directory
+    parser: ConfigFileParser;
+    find: Record<string, string>;
+    create?: boolean;            // Create the file when it doesn't exist yet
+}
+
+export interface ConfigPatchResult {
+    file: string;
+    updated: string[];           // Keys that were set
+    errors: string[];
+}
+
+const PLACEHOLDER = /{{\s*([A-Za-z0-9_.]+)\s*}}/g;
+
+/**
+ * Rewrites egg config files (ports, IPs, egg variables) in place before a
+ * server starts. Edits are made on the existing text where possible so
+ * comments and formatting survive.
+ *
+ * The server owns its directory and the daemon may run as root, so files are
+ * never opened through symlinks and must turn out to be inside the server
+ * directory once opened.
+ */
+export class ConfigFilePatcher {
+    async apply(
+        serverPath: string,
+        files: ConfigFileDefinition[],
+        variables: Record<string, string>
+    ): Promise<ConfigPatchResult[]> {
+        const results: ConfigPatchResult[] = [];
+
+        for (const definition of files) {
+            const result: ConfigPatchResult = { file: definition.file, updated: [], errors: [] };
+            results.push(result);
+
+            try {
+                await this.patchFile(serverPath, definition, variables, result);
+            } catch (error) {
+                result.errors.push(error instanceof Error ? error.message : 'Unknown error');
+            }
+        }
+
+        return results;
+    }
+
+    private async patchFile(
+        serverPath: string,
+        definition: ConfigFileDefinition,
+        variables: Record<string, string>,
+        result: ConfigPatchResult
+    ): Promise<void> {
+        let content = await this.readFile(serverPath, definition.file);
+        if (content === null) {
+            // Most games write their config on first start; there is nothing to patch before that
+            if (!definition.create) {
+                return;
+            }
+            content = '';
+        }
+
+        // Resolve every value first so one bad placeholder doesn't leave a half-patched file
+        const values: Array<[string, string]> = [];
+        for (const [key, template] of Object.entries(definition.find)) {
+            const missing: string[] = [];
+            const value = String(template).replace(PLACEHOLDER, (match, name: string) => {
+                if (variables[name] === undefined) {
+                    missing.push(name);
+                    return match;
+                }
+                return variables[name];
+            });
+
+            if (missing.length > 0) {
+                result.errors.push(`${key}: unknown placeholder${missing.length > 1 ? 's' : ''} ${missing.join(', ')}`);
+            } else {
+                values.push([key, value]);
+            }
+        }
+
+        let updated = content;
+        switch (definition.parser) {
+            case 'properties':
+                updated = this.patchProperties(content, values);
+                break;
+            case 'ini':
+                updated = this.patchIni(content, values);
+                break;
+            case 'yaml':
+                updated = this.patchYaml(content, values);
+                break;
+            case 'json':
+                updated = this.patchJson(content, values);
+                break;
+            case 'xml':
+                updated = this.patchXml(content, values, result);
+                break;
+            case 'plain-regex':
+                updated = this.patchRegex(content, values, result);
+                break;
+            default:
+                throw new Error(`Unknown config parser "${definition.parser}"`);
+        }
+
+        result.updated = values.map(([key]) => key).filter(key => !result.errors.some(e => e.startsWith(`${key}:`)));
+
+        if (updated !== content) {
+            await this.writeFile(serverPath, definition.file, updated);
+        }
+    }
+
+    // Contents of a file in the server directory, or null when it doesn't exist
+    async readFile(serverPath: string, file: string): Promise<string | null> {
+        const filePath = await this.resolve(serverPath, file, false);
+        if (!filePath) {
+            return null;
+        }
+        let handle: fs.FileHandle;
+        try {
+            handle = await this.open(serverPath, filePath, constants.O_RDONLY);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        }
+        try {
+            return await handle.readFile('utf-8');
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private async writeFile(serverPath: string, file: string, content: string): Promise<void> {
+        const filePath = (await this.resolve(serverPath, file, true))!;
+        // Truncated only after the checks, so a refused file is left as it was
+        const handle = await this.open(serverPath, filePath, constants.O_WRONLY | constants.O_CREAT);
+        try {
+            await handle.truncate(0);
+            await handle.writeFile(content);
+        } finally {
+            await handle.close();
+        }
+    }
+
+    // Absolute path of the file; folders on the way must be real folders, missing ones are created or give null
+    private async resolve(serverPath: string, file: string, create: boolean): Promise<string | null> {
+        const root = path.resolve(serverPath);
+        const filePath = path.resolve(root, file);
+        if (!filePath.startsWith(root + path.sep)) {
+            throw new Error('Config file path escapes the server directory');
+        }
+
+        let current = root;
+        for (const part of path.relative(root, path.dirname(filePath)).split(path.sep).filter(Boolean)) {
+            current = path.join(current, part);
+            const stats = await fs.lstat(current).catch(() => null);
+            if (!stats) {
+                if (!create) {
+                    return null;
+                }
+                await fs.mkdir(current);
+            } else if (stats.isSymbolicLink()) {
+                throw new Error(`Refusing to follow symbolic link ${path.relative(root, current)}`);
+            } else if (!stats.isDirectory()) {
+                throw new Error(`${path.relative(root, current)} is not a directory`);
+            }
+        }
+        return filePath;
+    }
+
+    private async open(serverPath: string, filePath: string, flags: number): Promise<fs.FileHandle> {
+        let handle: fs.FileHandle;
+        try {
+            handle = await fs.open(filePath, flags | constants.O_NOFOLLOW, 0o644);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ELOOP') {
+                throw new Error(`Refusing to follow symbolic link ${path.basename(filePath)}`);
+            }
+            throw error;
+        }
+
+        try {
+            // A folder swapped for a link after the checks above still shows up in the real path of the open file
+            const [opened, root, stats] = await Promise.all([
+                fs.readlink(`/proc/self/fd/${handle.fd}`),
+                fs.realpath(serverPath),
+                handle.stat(),
+            ]);
+            if (!opened.startsWith(root + path.sep)) {
+                throw new Error('Config file path escapes the server directory');
+            }
+            if (!stats.isFile()) {
+                throw new Error(`${path.basename(filePath)} is not a regular file`);
+            }
+            // A hard link could be a file from anywhere on the same filesystem
+            if (stats.nlink > 1) {
+                throw new Error(`Refusing to open ${path.basename(filePath)}, it has other hard links`);
+            }
+            return handle;
+        } catch (error) {
+            await handle.close();
+            throw error;
+        }
+    }
+
+    // key=value (or key: value) lines; missing keys are appended
+    private patchProperties(content: string, values: Array<[string, string]>): string {
+        const lines = content.split('\n');
+
+        for (const [key, value] of values) {
+            const pattern = new RegExp(`^(\\s*${this.escapeRegex(key)}\\s*[=:]\\s*).*$`);
+            const index = lines.findIndex(line => pattern.test(line));
+            if (index !== -1) {
+                lines[index] = lines[index].replace(pattern, (_, prefix: string) => prefix + value);
+            } else {
+                this.appendLine(lines, `${key}=${value}`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    // [section] headers with key = value lines; TOML files that only set simple keys work too
+    private patchIni(content: string, values: Array<[string, string]>): string {
+        const lines = content.split('\n');
+
+        for (const [keyPath, value] of values) {
+            const separator = keyPath.lastIndexOf('.');
+            const section = separator === -1 ? '' : keyPath.slice(0, separator);
+            const key = separator === -1 ? keyPath : keyPath.slice(separator + 1);
+
+            // Find the line range belonging to the section ('' = before the first header)
+            let start = 0;
+            if (section) {
+                const header = lines.findIndex(line => line.trim() === `[${section}]`);
+                if (header === -1) {
+                    this.appendLine(lines, `[${section}]`);
+                    this.appendLine(lines, `${key} = ${value}`);
+                    continue;
+                }
+                start = header + 1;
+            }
+            let end = lines.findIndex((line, index) => index >= start && /^\s*\[.*\]\s*$/.test(line));
+            if (end === -1) {
+                end = lines.length;
+            }
+
+            const pattern = new RegExp(`^(\\s*${this.escapeRegex(key)}\\s*=\\s*)(.*?)(\\s*)$`);
+            const index = lines.findIndex((line, i) => i >= start && i < end && pattern.test(line));
+            if (index !== -1) {
+                lines[index] = lines[index].replace(pattern, (_, prefix: string, current: string, suffix: string) =>
+                    prefix + this.keepQuotes(current, value) + suffix
+                );
+            } else {
+                // Insert after the last non-empty line of the section
+                let insertAt = end;
+                while (insertAt > start && lines[insertAt - 1].trim() === '') {
+                    insertAt--;
+                }
+                lines.splice(insertAt, 0, `${key} = ${value}`);
+            }
+        }
+
+        return lines.join('\n');
+    }
+
+    private patchYaml(content: string, values: Array<[string, string]>): string {
+        if (values.length === 0) {
+            return content;
+        }
+
+        const document = parseDocument(content);
+        if (document.errors.length > 0) {
+            throw new Error(`Invalid YAML: ${document.errors[0].message}`);
+        }
+
+        for (const [keyPath, value] of values) {
+            const segments = this.splitPath(keyPath);
+            document.setIn(segments, this.coerce(value, document.getIn(segments)));
+        }
+
+        // Keep block sequences unindented if the file writes them that way (BungeeCord does)
+        const indentSeq = !/^\S[^\n]*:[ \t]*\r?\n- /m.test(content);
+        return document.toString({ indentSeq });
+    }
+
+    private patchJson(content: string, values: Array<[string, string]>): string {
+        const data = content.trim() ? JSON.parse(content) : {};
+
+        for (const [keyPath, value] of values) {
+            const segments = this.splitPath(keyPath);
+            let target = data;
+            for (const [index, segment] of segments.slice(0, -1).entries()) {
+                if (target[segment] === undefined || target[segment] === null) {
+                    target[segment] = typeof segments[index + 1] === 'number' ? [] : {};
+                }
+                target = target[segment];
+            }
+            const last = segments[segments.length - 1];
+            target[last] = this.coerce(value, target[last]);
+        }
+
+        // Keep the file's indentation
+        const indent = content.match(/^[ \t]+(?=")/m)?.[0] || '  ';
+        return JSON.stringify(data, null, indent) + '\n';
+    }
+
+    // Element text or attribute values addressed by path; elements must already exist
+    private patchXml(content: string, values: Array<[string, string]>, result: ConfigPatchResult): string {
+        let updated = content;
+
+        for (const [keyPath, value] of values) {
+            const [elementPath, attribute] = keyPath.split('@');
+            const names = elementPath.split('.');
+
+            // Narrow down to the innermost element, one level at a time
+            let start = 0;
+            let end = updated.length;
+            let openTag: { index: number; length: number } | null = null;
+            let closed = false;
+            for (const name of names) {
+                const pattern = new RegExp(`<${this.escapeRegex(name)}(?=[\\s/>])[^>]*>`, 'g');
+                pattern.lastIndex = start;
+                const match = pattern.exec(updated);
+                if (!match || match.index >= end) {
+                    openTag = null;
+                    break;
+                }
+                const close = updated.indexOf(`</${name}>`, match.index + match[0].length);
+                openTag = { index: match.index, length: match[0].length };
+                closed = close !== -1 && !match[0].endsWith('/>');
+                start = match.index + match[0].length;
+                end = closed ? close : start;
+            }
+
+            if (!openTag) {
+                result.errors.push(`${keyPath}: element not found`);
+                continue;
+            }
+
+            const escaped = this.escapeXml(value);
+            if (attribute) {
+                const tag = updated.slice(openTag.index, openTag.index + openTag.length);
+                const attributePattern = new RegExp(`(\\s${this.escapeRegex(attribute)}\\s*=\\s*)(["'])[^"']*\\2`);
+                const newTag = attributePattern.test(tag)
+                    ? tag.replace(attributePattern, (_, prefix: string, quote: string) => `${prefix}${quote}${escaped}${quote}`)
+                    : tag.replace(/\s*(\/?)>$/, ` ${attribute}="${escaped}"$1>`);
+                updated = updated.slice(0, openTag.index) + newTag + updated.slice(openTag.index + openTag.length);
+            } else if (closed) {
+                updated = updated.slice(0, start) + escaped + updated.slice(end);
+            } else {
+                result.errors.push(`${keyPath}: element has no text content to replace`);
+            }
+        }
+
+        return updated;
+    }
+
+    private patchRegex(content: string, values: Array<[string, string]>, result: ConfigPatchResult): string {
+        let updated = content;
+        for (const [pattern, replacement] of values) {
+            let regex: RegExp;
+            try {
+                regex = new RegExp(pattern, 'gm');
+            } catch (error) {
+                result.errors.push(`${pattern}: ${error instanceof Error ? error.message : 'invalid regex'}`);
+                continue;
+            }
+            updated = updated.replace(regex, replacement);
+        }
+        return updated;
+    }
+
+    private splitPath(keyPath: string): Array<string | number> {
+        return keyPath.split('.').map(segment => /^\d+$/.test(segment) ? Number(segment) : segment);
+    }
+
+    // Write numbers and booleans as such, unless the file already holds a string there
+    private coerce(value: string, current: unknown): string | number | boolean {
+        if (typeof current === 'string') {
+            return value;
+        }
+        if (/^-?\d+(\.\d+)?$/.test(value)) {
+            return Number(value);
+        }
+        if (value === 'true' || value === 'false') {
+            return value === 'true';
+        }
+        return value;
+    }
+
+    private keepQuotes(current: string, value: string): string {
+        const quote = current.match(/^(["'])/)?.[1];
+        if (quote && !value.startsWith(quote)) {
+            return `${quote}${value}${quote}`;
+        }
+        return value;
+    }
+
+    private appendLine(lines: string[], line: string): void {
+        // Reuse a trailing empty line so the file keeps ending with a newline
+        if (lines.length > 0 && lines[lines.length - 1] === '') {
+            lines.splice(lines.length - 1, 0, line);
+        } else {
+            lines.push(line);
+        }
+    }
+
+    private escapeRegex(value: string): string {
+        return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    private escapeXml(value: string): string {
+        return value
+            .replace(/&/g, '&amp;')
+            .replace(/</g, '&lt;')
+            .replace(/>/g, '&gt;')
+            .replace(/"/g, '&quot;');
+    }
+}
@@ -0,0 +1,45 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { StartupTemplate } from './StartupTemplate.js';
+
+const render = (template: string, value: string) => StartupTemplate.render(template, {
+    memory: 1024,
+    variables: [{ envVariable: 'NAME', value }],
+}).command;
+
+// What the shell makes of the command, one argument per line
+const shellArgs = (command: string) => execFileSync('sh', ['-c', `printf '%s\\n' ${command}`], { encoding: 'utf-8' }).split('\n').slice(0, -1);
+
+describe('StartupTemplate placeholders', () => {
+    it('quotes bare placeholders only when needed', () => {
+        assert.equal(render('./srv --name {{NAME}}', 'plain'), './srv --name plain');
+        assert.equal(render('./srv --name {{NAME}}', 'My Server'), `./srv --name 'My Server'`);
+        assert.deepEqual(shellArgs(render('--name {{NAME}}', `it's $HOME; rm -rf /`)), ['--name', `it's $HOME; rm -rf /`]);
+    });
+
+    it('escapes inside double quotes without adding quotes', () => {
+        assert.equal(render('+server.hostname "{{NAME}}"', 'My Server'), '+server.hostname "My Server"');
+        const value = `say "hi" $USER \`id\` \\ it's`;
+        assert.deepEqual(shellArgs(render('+server.hostname "{{NAME}}"', value)), ['+server.hostname', value]);
+    });
+
+    it('escapes inside single quotes without adding quotes', () => {
+        assert.equal(render(`--motd '{{NAME}}'`, 'My Server'), `--motd 'My Server'`);
+        const value = `it's "$HOME"`;
+        assert.deepEqual(shellArgs(render(`--motd '{{NAME}}'`, value)), ['--motd', value]);
+    });
+
+    it('tracks quoting across mixed placeholders', () => {
+        const template = `a={{NAME}} "b={{NAME}}" 'c={{NAME}}' "d='{{NAME}}'" 'e="{{NAME}}"' \\"{{NAME}}`;
+        const value = `x "y" 'z' $w`;
+        assert.deepEqual(shellArgs(render(template, value)), [
+            `a=${value}`,
+            `b=${value}`,
+            `c=${value}`,
+            `d='${value}'`,
+            `e="${value}"`,
+            `"${value}`,
+        ]);
+    });
+});
@@ -0,0 +1,233 @@
+export interface EggVariable {
+    envVariable: string;
+    name?: string;
+    value?: string | null;
+    defaultValue?: string | null;
+    // Laravel-style rules as used by eggs, e.g. "required|integer|between:1,100" or "nullable|in:a,b"
+    rules?: string;
+}
+
+export interface StartupContext {
+    memory: number;
+    allocation?: { ip: string; port: number };
+    // Additional allocations, exposed as SERVER_IP_1/SERVER_PORT_1 and up
+    allocations?: Array<{ ip: string; port: number }>;
+    variables?: EggVariable[];
+}
+
+export interface RenderedStartup {
+    command: string;
+    env: Record<string, string>;
+}
+
+export interface InvalidVariable {
+    variable: string;
+    message: string;
+}
+
+export class StartupTemplateError extends Error {
+    unresolved: string[];
+    invalid: InvalidVariable[];
+
+    constructor(unresolved: string[], invalid: InvalidVariable[]) {
+        const problems = [
+            ...unresolved.map(name => `{{${name}}} is not defined`),
+            ...invalid.map(({ variable, message }) => `${variable} ${message}`),
+        ];
+        super(`Invalid startup configuration: ${problems.join('; ')}`);
+        this.name = 'StartupTemplateError';
+        this.unresolved = unresolved;
+        this.invalid = invalid;
+    }
+}
+
+const PLACEHOLDER = /{{\s*([A-Za-z0-9_.]+)\s*}}/g;
+
+// Values made only of these characters need no quoting in sh
+const SHELL_SAFE = /^[A-Za-z0-9_@%+=:,./-]+$/;
+
+// Quoting in effect at a point of the template
+type QuoteContext = 'bare' | 'single' | 'double';
+
+/**
+ * Builds the startup command and environment from an egg's startup template.
+ * Every placeholder must resolve to a system, allocation or egg variable and
+ * every egg variable must satisfy its rules, otherwise nothing is started.
+ */
+export class StartupTemplate {
+    static render(template: string, context: StartupContext): RenderedStartup {
+        const env: Record<string, string> = {
+            SERVER_MEMORY: context.memory.toString(),
+        };
+        if (context.allocation) {
+            env.SERVER_IP = context.allocation.ip;
+            env.SERVER_PORT = context.allocation.port.toString();
+        }
+        for (const [index, allocation] of (context.allocations || []).entries()) {
+            env[`SERVER_IP_${index + 1}`] = allocation.ip;
+            env[`SERVER_PORT_${index + 1}`] = allocation.port.toString();
+        }
+
+        const invalid: InvalidVariable[] = [];
+        for (const variable of context.variables || []) {
+            const value = variable.value ?? variable.defaultValue ?? '';
+            const error = this.validate(value, variable.rules);
+            if (error) {
+                invalid.push({ variable: variable.envVariable, message: error });
+            }
+            env[variable.envVariable] = value;
+        }
+
+        // Substituted values are escaped for the quotes around them so they can't inject shell syntax
+        const unresolved = new Set<string>();
+        let quoting: QuoteContext = 'bare';
+        let scanned = 0;
+        const command = template.replace(PLACEHOLDER, (match, name: string, offset: number) => {
+            quoting = this.scanQuotes(template.slice(scanned, offset), quoting);
+            scanned = offset + match.length;
+            if (env[name] === undefined) {
+                unresolved.add(name);
+                return match;
+            }
+            return this.escapeFor(env[name], quoting);
+        });
+
+        if (unresolved.size > 0 || invalid.length > 0) {
+            throw new StartupTemplateError(Array.from(unresolved), invalid);
+        }
+
+        return { command, env };
+    }
+
+    static shellEscape(value: string): string {
+        if (SHELL_SAFE.test(value)) {
+            return value;
+        }
+        return `'${value.replace(/'/g, `'\\''`)}'`;
+    }
+
+    private static escapeFor(value: string, context: QuoteContext): string {
+        switch (context) {
+            case 'double':
+                return value.replace(/["$`\\]/g, '\\$&');
+            case 'single':
+                return value.replace(/'/g, `'\\''`);
+            default:
+                return this.shellEscape(value);
+        }
+    }
+
+    // The quoting in effect after the text, starting from the given one
+    private static scanQuotes(text: string, context: QuoteContext): QuoteContext {
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+            if (context === 'single') {
+                if (char === "'") {
+                    context = 'bare';
+                }
+            } else if (char === '\\') {
+                // The next character is literal, quote or not
+                i++;
+            } else if (char === '"') {
+                context = context === 'double' ? 'bare' : 'double';
+            } else if (char === "'" && context === 'bare') {
+                context = 'single';
+            }
+        }
+        return context;
+    }
+
+    // Returns why the value breaks the rules, or null if it is fine
+    private static validate(value: string, rules?: string): string | null {
+        const parsed = this.splitRules(rules || '');
+        const names = parsed.map(rule => rule.split(':')[0]);
+
+        if (value === '') {
+            return names.includes('required') ? 'is required' : null;
+        }
+
+        const numeric = names.includes('numeric') || names.includes('integer');
+        for (const rule of parsed) {
+            const separator = rule.indexOf(':');
+            const name = separator === -1 ? rule : rule.slice(0, separator);
+            const argument = separator === -1 ? '' : rule.slice(separator + 1);
+
+            switch (name) {
+                case 'numeric':
+                    if (!/^-?\d+(\.\d+)?$/.test(value)) {
+                        return 'must be a number';
+                    }
+                    break;
+                case 'integer':
+                    if (!/^-?\d+$/.test(value)) {
+                        return 'must be an integer';
+                    }
+                    break;
+                case 'boolean':
+                    if (!['true', 'false', '1', '0'].includes(value)) {
+                        return 'must be true or false';
+                    }
+                    break;
+                case 'in': {
+                    const allowed = argument.split(',');
+                    if (!allowed.includes(value)) {
+                        return `must be one of ${allowed.join(', ')}`;
+                    }
+                    break;
+                }
+                case 'regex': {
+                    const pattern = this.parseRegexRule(argument);
+                    if (!pattern) {
+                        return `has an invalid regex rule ${argument}`;
+                    }
+                    if (!pattern.test(value)) {
+                        return `must match ${argument}`;
+                    }
+                    break;
+                }
+                case 'min':
+                case 'max':
+                case 'between': {
+                    // Bounds apply to the value for numbers and to the length for strings
+                    const bounds = argument.split(',').map(Number);
+                    const [min, max] = name === 'between' ? bounds : name === 'min' ? [bounds[0], Infinity] : [-Infinity, bounds[0]];
+                    const measured = numeric ? Number(value) : value.length;
+                    if (measured < min || measured > max) {
+                        const what = numeric ? 'be' : 'be a length of';
+                        if (name === 'between') {
+                            return `must ${what} between ${min} and ${max}`;
+                        }
+                        return `must ${what} ${name === 'min' ? 'at least' : 'at most'} ${name === 'min' ? min : max}`;
+                    }
+                    break;
+                }
+            }
+        }
+
+        return null;
+    }
+
+    // Rules are separated by "|", which may also appear inside a regex rule
+    private static splitRules(rules: string): string[] {
+        const parsed: string[] = [];
+        for (const part of rules.split('|')) {
+            const previous = parsed[parsed.length - 1];
+            if (previous?.startsWith('regex:/') && !/^regex:\/.*\/[a-z]*$/s.test(previous)) {
+                parsed[parsed.length - 1] = `${previous}|${part}`;
+            } else {
+                parsed.push(part);
+            }
+        }
+        return parsed.map(rule => rule.trim()).filter(Boolean);
+    }
+
+    // Laravel writes regex rules with delimiters and flags: regex:/^[a-z]+$/i
+    private static parseRegexRule(rule: string): RegExp | null {
+        const match = rule.match(/^\/(.*)\/([a-z]*)$/s);
+        try {
+            return match ? new RegExp(match[1], match[2].replace(/[^imsu]/g, '')) : new RegExp(rule);
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,86 @@
+import { OutputStream } from '../process/ProcessManager.js';
+
+export interface ConsoleEntry {
+    seq: number;             // Increases by one per line of a server, for the daemon's lifetime
+    timestamp: number;       // ms since epoch
+    stream: OutputStream;
+    line: string;
+}
+
+export interface ConsoleHistoryPage {
+    entries: ConsoleEntry[];
+    firstSeq: number | null; // Oldest entry still buffered
+    lastSeq: number;         // Latest sequence number handed out (0 = nothing yet)
+    // Lines after the requested sequence number have already been dropped from the buffer
+    truncated: boolean;
+    // The requested sequence number is from an earlier daemon run; start over from these entries
+    reset: boolean;
+}
+
+interface ServerHistory {
+    entries: ConsoleEntry[];
+    capacity: number;
+    lastSeq: number;
+}
+
+/**
+ * In-memory console scrollback per server. Entries carry a sequence number so
+ * reconnecting clients can ask for exactly what they missed.
+ */
+export class ConsoleHistory {
+    private defaultCapacity: number;
+    private servers: Map<string, ServerHistory> = new Map();
+
+    constructor(defaultCapacity: number) {
+        this.defaultCapacity = defaultCapacity;
+    }
+
+    push(serverId: string, stream: OutputStream, line: string): ConsoleEntry {
+        const history = this.get(serverId);
+        const entry: ConsoleEntry = { seq: ++history.lastSeq, timestamp: Date.now(), stream, line };
+
+        history.entries.push(entry);
+        if (history.entries.length > history.capacity) {
+            history.entries.splice(0, history.entries.length - history.capacity);
+        }
+        return entry;
+    }
+
+    setCapacity(serverId: string, capacity?: number): void {
+        const history = this.get(serverId);
+        history.capacity = capacity && capacity > 0 ? capacity : this.defaultCapacity;
+        if (history.entries.length > history.capacity) {
+            history.entries.splice(0, history.entries.length - history.capacity);
+        }
+    }
+
+    // Everything after sequence number `after`, or the whole buffer when it's omitted
+    getAfter(serverId: string, after?: number): ConsoleHistoryPage {
+        const history = this.get(serverId);
+        const firstSeq = history.entries.length > 0 ? history.entries[0].seq : null;
+
+        const reset = after !== undefined && after > history.lastSeq;
+        const from = after === undefined || reset ? 0 : after;
+
+        return {
+            entries: history.entries.filter(entry => entry.seq > from),
+            firstSeq,
+            lastSeq: history.lastSeq,
+            truncated: !reset && after !== undefined && firstSeq !== null && firstSeq > after + 1,
+            reset,
+        };
+    }
+
+    remove(serverId: string): void {
+        this.servers.delete(serverId);
+    }
+
+    private get(serverId: string): ServerHistory {
+        let history = this.servers.get(serverId);
+        if (!history) {
+            history = { entries: [], capacity: this.defaultCapacity, lastSeq: 0 };
+            this.servers.set(serverId, history);
+        }
+        return history;
+    }
+}
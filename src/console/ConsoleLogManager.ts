@@ -0,0 +1,261 @@
+import fs from 'fs/promises';
+import { createReadStream, createWriteStream, WriteStream } from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip, createGzip } from 'zlib';
+import { ConsoleEntry } from './ConsoleHistory.js';
+
+export interface ConsoleLogOptions {
+    maxSize: number;         // Bytes before the active log is rotated
+    rotateInterval: number;  // ms before the active log is rotated regardless of size
+    maxFiles: number;        // Rotated logs kept per server
+    maxAge: number;          // ms before rotated logs are deleted
+}
+
+export interface ConsoleLogFile {
+    name: string;
+    size: number;
+    modifiedAt: string;
+    compressed: boolean;
+    current: boolean;
+}
+
+export interface ConsoleLogPage {
+    lines: string[];
+    offset: number;
+    nextOffset: number;
+    hasMore: boolean;
+}
+
+interface LogWriter {
+    stream: WriteStream | null;
+    size: number;
+    openedAt: number;
+    rotating: boolean;
+    pending: string[];
+}
+
+const ACTIVE_LOG = 'console.log';
+// Rotated logs are named after the time they were rotated, so names sort chronologically
+const LOG_NAME_PATTERN = /^console(-[0-9TZ-]+)?\.log(\.gz)?$/;
+
+const MAX_PAGE_LINES = 5000;
+
+/**
+ * Appends every console line of a server to <log_directory>/<serverId>/console.log
+ * as "<ISO timestamp> [<stream>] <line>". The active file is rotated by size
+ * and age, rotated files are gzipped and pruned by count and age.
+ */
+export class ConsoleLogManager {
+    private logDirectory: string;
+    private options: ConsoleLogOptions;
+    private writers: Map<string, LogWriter> = new Map();
+
+    constructor(logDirectory: string, options: ConsoleLogOptions) {
+        this.logDirectory = logDirectory;
+        this.options = options;
+    }
+
+    append(serverId: string, { timestamp, stream, line }: ConsoleEntry): void {
+        const entry = `${new Date(timestamp).toISOString()} [${stream}] ${line}\n`;
+
+        let writer = this.writers.get(serverId);
+        if (!writer) {
+            writer = { stream: null, size: 0, openedAt: Date.now(), rotating: true, pending: [entry] };
+            this.writers.set(serverId, writer);
+            this.open(serverId, writer).catch((error) => {
+                console.error(`[Logs] Failed to open console log for ${serverId}:`, error);
+                this.writers.delete(serverId);
+            });
+            return;
+        }
+
+        if (writer.rotating || !writer.stream) {
+            writer.pending.push(entry);
+            return;
+        }
+
+        writer.stream.write(entry);
+        writer.size += Buffer.byteLength(entry);
+
+        if (writer.size >= this.options.maxSize || Date.now() - writer.openedAt >= this.options.rotateInterval) {
+            this.rotate(serverId, writer).catch((error) => {
+                console.error(`[Logs] Failed to rotate console log for ${serverId}:`, error);
+            });
+        }
+    }
+
+    // Close the active log of a server; the next line reopens it
+    async close(serverId: string): Promise<void> {
+        const writer = this.writers.get(serverId);
+        if (!writer || writer.rotating) {
+            return;
+        }
+        this.writers.delete(serverId);
+        await this.endStream(writer.stream);
+    }
+
+    async closeAll(): Promise<void> {
+        await Promise.all(Array.from(this.writers.keys()).map(serverId => this.close(serverId)));
+    }
+
+    async removeServer(serverId: string): Promise<void> {
+        const writer = this.writers.get(serverId);
+        this.writers.delete(serverId);
+        await this.endStream(writer?.stream || null);
+        await fs.rm(this.getServerLogDirectory(serverId), { recursive: true, force: true });
+    }
+
+    async listLogs(serverId: string): Promise<ConsoleLogFile[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.getServerLogDirectory(serverId));
+        } catch {
+            return [];
+        }
+
+        const files: ConsoleLogFile[] = [];
+        for (const name of names.filter(n => LOG_NAME_PATTERN.test(n))) {
+            const stats = await fs.stat(path.join(this.getServerLogDirectory(serverId), name));
+            files.push({
+                name,
+                size: stats.size,
+                modifiedAt: stats.mtime.toISOString(),
+                compressed: name.endsWith('.gz'),
+                current: name === ACTIVE_LOG,
+            });
+        }
+
+        // Active log first, then newest rotated logs
+        return files.sort((a, b) => Number(b.current) - Number(a.current) || b.name.localeCompare(a.name));
+    }
+
+    // Read `limit` lines starting at line `offset` (0-based), decompressing rotated logs on the fly
+    async readLog(serverId: string, name: string, offset: number = 0, limit: number = 500): Promise<ConsoleLogPage> {
+        const count = Math.min(Math.max(limit, 1), MAX_PAGE_LINES);
+        const start = Math.max(offset, 0);
+
+        const reader = readline.createInterface({ input: this.openLog(serverId, name), crlfDelay: Infinity });
+        const lines: string[] = [];
+        let index = 0;
+        let hasMore = false;
+
+        try {
+            for await (const line of reader) {
+                if (index >= start + count) {
+                    hasMore = true;
+                    break;
+                }
+                if (index >= start) {
+                    lines.push(line);
+                }
+                index++;
+            }
+        } finally {
+            reader.close();
+        }
+
+        return { lines, offset: start, nextOffset: start + lines.length, hasMore };
+    }
+
+    // Raw file contents (still gzipped for rotated logs) for downloads
+    async readLogFile(serverId: string, name: string): Promise<Buffer> {
+        return fs.readFile(this.resolveLogPath(serverId, name));
+    }
+
+    private openLog(serverId: string, name: string): Readable {
+        const source = createReadStream(this.resolveLogPath(serverId, name));
+        if (!name.endsWith('.gz')) {
+            return source;
+        }
+
+        const gunzip = createGunzip();
+        source.on('error', (error) => gunzip.destroy(error));
+        return source.pipe(gunzip);
+    }
+
+    private resolveLogPath(serverId: string, name: string): string {
+        if (path.basename(name) !== name || !LOG_NAME_PATTERN.test(name)) {
+            throw new Error('Invalid log file name');
+        }
+        return path.join(this.getServerLogDirectory(serverId), name);
+    }
+
+    private getServerLogDirectory(serverId: string): string {
+        return path.join(this.logDirectory, serverId);
+    }
+
+    private async open(serverId: string, writer: LogWriter): Promise<void> {
+        const directory = this.getServerLogDirectory(serverId);
+        await fs.mkdir(directory, { recursive: true });
+
+        const logPath = path.join(directory, ACTIVE_LOG);
+        try {
+            // Continue an existing log, keeping its size and age for rotation
+            const stats = await fs.stat(logPath);
+            writer.size = stats.size;
+            writer.openedAt = stats.birthtimeMs || stats.ctimeMs;
+        } catch {
+            writer.size = 0;
+            writer.openedAt = Date.now();
+        }
+
+        writer.stream = createWriteStream(logPath, { flags: 'a' });
+        writer.stream.on('error', (error) => {
+            console.error(`[Logs] Console log write failed for ${serverId}:`, error.message);
+        });
+        writer.rotating = false;
+
+        for (const entry of writer.pending.splice(0)) {
+            writer.stream.write(entry);
+            writer.size += Buffer.byteLength(entry);
+        }
+    }
+
+    private async rotate(serverId: string, writer: LogWriter): Promise<void> {
+        writer.rotating = true;
+        await this.endStream(writer.stream);
+        writer.stream = null;
+
+        const directory = this.getServerLogDirectory(serverId);
+        const rotatedPath = path.join(directory, `console-${new Date().toISOString().replace(/[:.]/g, '-')}.log`);
+        try {
+            await fs.rename(path.join(directory, ACTIVE_LOG), rotatedPath);
+        } finally {
+            await this.open(serverId, writer);
+        }
+
+        // Compression and pruning don't hold up new output
+        this.compress(rotatedPath)
+            .then(() => this.prune(serverId))
+            .catch((error) => {
+                console.error(`[Logs] Failed to compress ${rotatedPath}:`, error);
+            });
+    }
+
+    private async compress(filePath: string): Promise<void> {
+        await pipeline(createReadStream(filePath), createGzip(), createWriteStream(`${filePath}.gz`));
+        await fs.unlink(filePath);
+    }
+
+    private async prune(serverId: string): Promise<void> {
+        const rotated = (await this.listLogs(serverId)).filter(file => !file.current);
+        const now = Date.now();
+
+        for (const [index, file] of rotated.entries()) {
+            const expired = now - new Date(file.modifiedAt).getTime() > this.options.maxAge;
+            if (index >= this.options.maxFiles || expired) {
+                await fs.rm(path.join(this.getServerLogDirectory(serverId), file.name), { force: true });
+            }
+        }
+    }
+
+    private endStream(stream: WriteStream | null): Promise<void> {
+        if (!stream || stream.closed) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => stream.end(() => resolve()));
+    }
+}
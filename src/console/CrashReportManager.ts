@@ -0,0 +1,206 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { constants } from 'fs';
+import { ConsoleEntry } from './ConsoleHistory.js';
+import { CrashInfo } from '../process/ProcessManager.js';
+
+export interface CrashReportOptions {
+    consoleLines: number;    // Console lines included in a report
+    maxReports: number;      // Reports kept per server, oldest are deleted first
+    maxFileSize: number;     // Bytes read from each crash file, the rest is cut off
+}
+
+export interface CrashReportFile {
+    path: string;            // Relative to the server directory
+    size: number;
+    modifiedAt: string;
+    content: string;
+    truncated: boolean;
+}
+
+export interface CrashReport extends Omit<CrashInfo, 'lastLines'> {
+    id: string;
+    serverId: string;
+    createdAt: string;
+    console: ConsoleEntry[];
+    files: CrashReportFile[];
+}
+
+export type CrashReportSummary = Omit<CrashReport, 'console' | 'files'> & {
+    files: string[];
+};
+
+interface CrashFileLocation {
+    directory: string;       // Relative to the server directory
+    pattern: RegExp;
+}
+
+// Where games leave their own crash dumps
+const CRASH_FILE_LOCATIONS: CrashFileLocation[] = [
+    { directory: 'crash-reports', pattern: /^crash-.+\.txt$/ },  // Minecraft
+    { directory: '.', pattern: /^hs_err_pid\d+\.log$/ },          // JVM fatal errors
+    { directory: '.', pattern: /^replay_pid\d+\.log$/ },          // JIT replay data next to hs_err
+];
+
+// Files written slightly before the recorded start still belong to this run
+const START_SLACK_MS = 5000;
+
+const REPORT_ID_PATTERN = /^[0-9TZ-]+$/;
+
+/**
+ * Writes a report for every crash to <log_directory>/<serverId>/crashes/<id>.json
+ * with the exit details, the console tail and the crash files the game wrote
+ * during the run that crashed.
+ */
+export class CrashReportManager {
+    private logDirectory: string;
+    private options: CrashReportOptions;
+
+    constructor(logDirectory: string, options: CrashReportOptions) {
+        this.logDirectory = logDirectory;
+        this.options = options;
+    }
+
+    async capture(serverId: string, serverPath: string, info: CrashInfo, entries: ConsoleEntry[]): Promise<CrashReport> {
+        const { lastLines, ...details } = info;
+        const now = new Date();
+        const report: CrashReport = {
+            ...details,
+            id: now.toISOString().replace(/[:.]/g, '-'),
+            serverId,
+            createdAt: now.toISOString(),
+            console: entries.slice(-this.options.consoleLines),
+            files: await this.collectFiles(serverPath, new Date(info.startedAt).getTime() - START_SLACK_MS),
+        };
+
+        const directory = this.getReportDirectory(serverId);
+        await fs.mkdir(directory, { recursive: true });
+        await fs.writeFile(path.join(directory, `${report.id}.json`), JSON.stringify(report), { mode: 0o600 });
+        await this.prune(serverId);
+
+        return report;
+    }
+
+    // Newest first
+    async listReports(serverId: string): Promise<CrashReportSummary[]> {
+        const summaries: CrashReportSummary[] = [];
+        for (const id of await this.listReportIds(serverId)) {
+            try {
+                const { console: _console, files, ...summary } = await this.getReport(serverId, id);
+                summaries.push({ ...summary, files: files.map(file => file.path) });
+            } catch {
+                // Removed or half written
+            }
+        }
+        return summaries;
+    }
+
+    async getReport(serverId: string, id: string): Promise<CrashReport> {
+        if (!REPORT_ID_PATTERN.test(id)) {
+            throw new Error('Invalid crash report id');
+        }
+        try {
+            return JSON.parse(await fs.readFile(path.join(this.getReportDirectory(serverId), `${id}.json`), 'utf-8'));
+        } catch {
+            throw new Error(`Crash report ${id} not found`);
+        }
+    }
+
+    private async collectFiles(serverPath: string, since: number): Promise<CrashReportFile[]> {
+        const files: CrashReportFile[] = [];
+
+        for (const location of CRASH_FILE_LOCATIONS) {
+            const directory = path.join(serverPath, location.directory);
+            // Symlinks could point anywhere on the node, only the server's own files are read
+            if (!await this.isOwnDirectory(serverPath, directory)) {
+                continue;
+            }
+            let names: string[];
+            try {
+                names = await fs.readdir(directory);
+            } catch {
+                continue;
+            }
+
+            for (const name of names.filter(n => location.pattern.test(n))) {
+                const filePath = path.join(directory, name);
+                const file = await this.readHead(serverPath, filePath, since).catch(() => null);
+                if (file) {
+                    files.push(file);
+                }
+            }
+        }
+
+        return files;
+    }
+
+    // A real directory (no symlink on the way) that really is inside the server directory
+    private async isOwnDirectory(serverPath: string, directory: string): Promise<boolean> {
+        let current = serverPath;
+        for (const part of path.relative(serverPath, directory).split(path.sep).filter(Boolean)) {
+            current = path.join(current, part);
+            const stats = await fs.lstat(current).catch(() => null);
+            if (!stats?.isDirectory()) {
+                return false;
+            }
+        }
+        const [real, root] = await Promise.all([fs.realpath(directory), fs.realpath(serverPath)]).catch(() => []);
+        return !!real && !!root && (real === root || real.startsWith(root + path.sep));
+    }
+
+    // The start of a crash file from this run, or null when it's older, not a regular file or a link
+    private async readHead(serverPath: string, filePath: string, since: number): Promise<CrashReportFile | null> {
+        // O_NOFOLLOW and fstat, so a file swapped for a link after readdir isn't followed
+        const handle = await fs.open(filePath, constants.O_RDONLY | constants.O_NOFOLLOW | constants.O_NONBLOCK);
+        try {
+            const [stats, opened, root] = await Promise.all([
+                handle.stat(),
+                // A directory swapped for a link after the check shows up in the real path of the open file
+                fs.readlink(`/proc/self/fd/${handle.fd}`),
+                fs.realpath(serverPath),
+            ]);
+            // A hard link could be a file from anywhere on the same filesystem
+            if (!opened.startsWith(root + path.sep) || !stats.isFile() || stats.nlink > 1 || stats.mtimeMs < since) {
+                return null;
+            }
+            const length = Math.min(stats.size, this.options.maxFileSize);
+            const buffer = Buffer.alloc(length);
+            const { bytesRead } = await handle.read(buffer, 0, length, 0);
+            return {
+                path: path.relative(serverPath, filePath),
+                size: stats.size,
+                modifiedAt: stats.mtime.toISOString(),
+                content: buffer.subarray(0, bytesRead).toString('utf-8'),
+                truncated: stats.size > length,
+            };
+        } finally {
+            await handle.close();
+        }
+    }
+
+    private async listReportIds(serverId: string): Promise<string[]> {
+        let names: string[];
+        try {
+            names = await fs.readdir(this.getReportDirectory(serverId));
+        } catch {
+            return [];
+        }
+        // Ids are timestamps, so they sort chronologically
+        return names
+            .filter(name => name.endsWith('.json'))
+            .map(name => name.slice(0, -'.json'.length))
+            .filter(id => REPORT_ID_PATTERN.test(id))
+            .sort()
+            .reverse();
+    }
+
+    private async prune(serverId: string): Promise<void> {
+        for (const id of (await this.listReportIds(serverId)).slice(this.options.maxReports)) {
+            await fs.rm(path.join(this.getReportDirectory(serverId), `${id}.json`), { force: true });
+        }
+    }
+
+    private getReportDirectory(serverId: string): string {
+        return path.join(this.logDirectory, serverId, 'crashes');
+    }
+}
@@ -0,0 +1,332 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { constants, Stats } from 'fs';
+import { Duplex, Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGzip } from 'zlib';
+import archiver from 'archiver';
+import { ExternalFilter, ExternalFilterProcess } from './ExternalFilter.js';
+
+export type ArchiveOutputFormat = 'zip' | 'tar.gz' | 'tar.zst';
+
+export interface ArchiveCreationProgress {
+    percent: number;
+    entries: number;
+    totalEntries: number;
+    bytes: number;           // Uncompressed bytes added so far
+    totalBytes: number;
+}
+
+export interface ArchiveCreationResult {
+    entries: number;
+    size: number;            // Bytes of the finished archive
+}
+
+export interface ArchiveSources {
+    serverPath: string;      // Server directory
+    sources: string[];       // Absolute paths of the selected files and directories
+}
+
+export interface ArchiveCreationTarget extends ArchiveSources {
+    output: string;          // Absolute path of the archive to write
+    // Called with the bytes written so far; returns an error to stop (disk quota)
+    checkQuota: (bytes: number) => Error | null;
+}
+
+export interface ArchiveCreationOptions {
+    format: ArchiveOutputFormat;
+    level?: number;
+    signal?: AbortSignal;
+    onProgress?: (progress: ArchiveCreationProgress) => void;
+}
+
+export class ArchiveCancelledError extends Error {
+    constructor() {
+        super('Archive creation was cancelled');
+        this.name = 'ArchiveCancelledError';
+    }
+}
+
+interface ArchiveEntry {
+    fullPath: string;
+    name: string;            // Path inside the archive
+    stats: Stats;
+    linkTarget?: string;     // Stored as is, symlinks are never followed
+}
+
+export const ARCHIVE_SUFFIXES: Record<ArchiveOutputFormat, string> = {
+    'zip': '.zip',
+    'tar.gz': '.tar.gz',
+    'tar.zst': '.tar.zst',
+};
+
+// [min, max, default] compression level per format
+const LEVELS: Record<ArchiveOutputFormat, [number, number, number]> = {
+    'zip': [0, 9, 6],
+    'tar.gz': [1, 9, 6],
+    'tar.zst': [1, 19, 3],
+};
+
+const PROGRESS_INTERVAL_MS = 500;
+const READ_CHUNK_SIZE = 64 * 1024;
+const ZEROS = Buffer.alloc(READ_CHUNK_SIZE);
+
+// What a FileSource reports back to the job it belongs to
+interface SourceJob {
+    failed(): boolean;
+    fail(error: Error): void;
+    read(bytes: number): void;
+}
+
+/**
+ * Reads one file for the archive. The file is only opened once archiver gets
+ * to it, and exactly the size it had when listed is read: a file the running
+ * server grows meanwhile is cut off and one it shrinks is padded with zeros,
+ * like GNU tar does, since tar headers are written before the data.
+ * tar-stream can't handle an entry ending early either, so once the job has
+ * failed the rest of the entry is zeros without touching the disk.
+ */
+class FileSource extends Readable {
+    private handle: fs.FileHandle | null = null;
+    private position = 0;
+
+    constructor(private filePath: string, private size: number, private job: SourceJob) {
+        super();
+    }
+
+    async _read(): Promise<void> {
+        const length = Math.min(READ_CHUNK_SIZE, this.size - this.position);
+        if (length <= 0) {
+            this.push(null);
+            return;
+        }
+        if (this.job.failed()) {
+            this.position += length;
+            this.push(ZEROS.subarray(0, length));
+            return;
+        }
+
+        try {
+            this.handle ??= await fs.open(this.filePath, constants.O_RDONLY | constants.O_NOFOLLOW);
+            // Past the end of a file that shrank the buffer stays zeroed
+            const buffer = Buffer.alloc(length);
+            await this.handle.read(buffer, 0, length, this.position);
+            this.position += length;
+            this.job.read(length);
+            this.push(buffer);
+        } catch (error) {
+            // Archiver doesn't listen for source errors, the job is failed instead
+            this.job.fail(error as Error);
+            this._read();
+        }
+    }
+
+    _destroy(error: Error | null, callback: (error?: Error | null) => void): void {
+        const handle = this.handle;
+        this.handle = null;
+        (handle ? handle.close() : Promise.resolve()).then(() => callback(error), () => callback(error));
+    }
+}
+
+/**
+ * Packs files and whole directory trees of a server into an archive. Paths
+ * inside the archive are relative to the selection's common parent
+ * directory. Symlinks are stored as links and never followed, so nothing
+ * outside the server ends up in an archive.
+ */
+export class ArchiveCreator {
+    async create(target: ArchiveCreationTarget, options: ArchiveCreationOptions): Promise<ArchiveCreationResult> {
+        const entries = await this.collect(target, options.signal, target.output);
+
+        // Don't write through a link someone put where the archive goes
+        const existing = await fs.lstat(target.output).catch(() => null);
+        if (existing?.isSymbolicLink()) {
+            await fs.unlink(target.output);
+        }
+        const handle = await fs.open(target.output, constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW, 0o644);
+
+        try {
+            return await this.write(entries, handle.createWriteStream(), options, target.checkQuota);
+        } catch (error) {
+            await fs.rm(target.output, { force: true });
+            throw error;
+        }
+    }
+
+    // Sends the archive to a stream instead of a file, e.g. an HTTP response
+    async stream(sources: ArchiveSources, output: Writable, options: ArchiveCreationOptions): Promise<ArchiveCreationResult> {
+        return this.write(await this.collect(sources, options.signal), output, options);
+    }
+
+    private async write(
+        entries: ArchiveEntry[],
+        output: Writable,
+        options: ArchiveCreationOptions,
+        checkQuota?: (bytes: number) => Error | null
+    ): Promise<ArchiveCreationResult> {
+        const { format, signal } = options;
+        const [minLevel, maxLevel, defaultLevel] = LEVELS[format];
+        const requested = Number.isFinite(options.level) ? Math.round(options.level!) : defaultLevel;
+        const level = Math.min(Math.max(requested, minLevel), maxLevel);
+        const totalBytes = entries.reduce((total, entry) => total + (entry.stats.isFile() ? entry.stats.size : 0), 0);
+
+        // Tar output is compressed here rather than by archiver so it can be cut off on failure.
+        // Nothing awaits from here until the pipeline is set up, so no stream error goes unhandled
+        const archive = format === 'zip' ? archiver('zip', { zlib: { level } }) : archiver('tar');
+        const zstd: ExternalFilterProcess | null = format === 'tar.zst'
+            ? ExternalFilter.spawn('zstd', ['-c', '-q', `-${level}`])
+            : null;
+        const compressor: Duplex | null = format === 'tar.gz' ? createGzip({ level }) : zstd?.stream ?? null;
+
+        // The first failure (cancellation, quota, a file that can't be read) ends the job
+        let failure: Error | null = null;
+        let processed = 0;
+        let bytes = 0;
+        let reportedAt = 0;
+        const fail = (error: Error) => {
+            if (failure) {
+                return;
+            }
+            failure = error;
+            if (format === 'zip') {
+                // Skips the entries that haven't started
+                archive.abort();
+            } else {
+                // archiver's abort() breaks on tar, so the rest of the tar is drained
+                // uncompressed; the remaining sources only produce zeros by now
+                archive.unpipe();
+                archive.resume();
+                compressor?.end();
+            }
+        };
+        const report = () => {
+            if (failure || !options.onProgress || Date.now() - reportedAt < PROGRESS_INTERVAL_MS) {
+                return;
+            }
+            reportedAt = Date.now();
+            options.onProgress({
+                percent: Math.min(99, Math.floor((bytes / Math.max(totalBytes, 1)) * 100)),
+                entries: processed,
+                totalEntries: entries.length,
+                bytes,
+                totalBytes,
+            });
+        };
+        const job: SourceJob = {
+            failed: () => failure !== null,
+            fail,
+            read: (length) => {
+                bytes += length;
+                report();
+            },
+        };
+
+        const cancel = () => fail(new ArchiveCancelledError());
+        signal?.addEventListener('abort', cancel);
+        archive.on('error', fail);
+        archive.on('entry', () => {
+            processed++;
+            report();
+        });
+
+        let written = 0;
+        const counter = new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                if (!failure) {
+                    written += chunk.length;
+                    const quotaError = checkQuota?.(written);
+                    if (quotaError) {
+                        fail(quotaError);
+                    }
+                }
+                // Once failed the rest is dropped, the output gets deleted anyway
+                callback(null, failure ? undefined : chunk);
+            },
+        });
+
+        for (const entry of entries) {
+            const { stats } = entry;
+            if (stats.isDirectory()) {
+                archive.append('', { name: entry.name + '/', mode: stats.mode & 0o777, date: stats.mtime });
+            } else if (entry.linkTarget !== undefined) {
+                archive.symlink(entry.name, entry.linkTarget, stats.mode & 0o777);
+            } else {
+                archive.append(new FileSource(entry.fullPath, stats.size, job), { name: entry.name, stats });
+            }
+        }
+        archive.finalize();
+
+        // Archiver can't be destroyed halfway through an entry, so when the
+        // output fails it is drained instead of torn down
+        const drained = new Promise<void>(resolve => archive.on('end', resolve));
+        const streams = compressor ? [compressor, counter, output] : [counter, output];
+        archive.pipe(streams[0]);
+        try {
+            await pipeline(streams);
+            await zstd?.exited;
+        } catch (error) {
+            fail(error as Error);
+            archive.unpipe();
+            archive.resume();
+        }
+        await drained;
+        signal?.removeEventListener('abort', cancel);
+
+        if (failure) {
+            throw failure;
+        }
+
+        options.onProgress?.({ percent: 100, entries: entries.length, totalEntries: entries.length, bytes: totalBytes, totalBytes });
+        return { entries: entries.length, size: written };
+    }
+
+    // Everything that goes into the archive, listed up front so progress has a total
+    private async collect(target: ArchiveSources, signal?: AbortSignal, output?: string): Promise<ArchiveEntry[]> {
+        const root = this.commonParent(target.sources, target.serverPath);
+        const entries: ArchiveEntry[] = [];
+
+        const visit = async (fullPath: string) => {
+            if (signal?.aborted) {
+                throw new ArchiveCancelledError();
+            }
+            // The archive itself may sit inside a selected directory
+            if (fullPath === output) {
+                return;
+            }
+
+            const stats = await fs.lstat(fullPath);
+            const name = path.relative(root, fullPath).split(path.sep).join('/');
+            if (!stats.isFile() && !stats.isDirectory() && !stats.isSymbolicLink()) {
+                return; // Sockets, fifos and devices
+            }
+            if (name) {
+                const linkTarget = stats.isSymbolicLink() ? await fs.readlink(fullPath) : undefined;
+                entries.push({ fullPath, name, stats, linkTarget });
+            }
+
+            if (stats.isDirectory()) {
+                for (const child of (await fs.readdir(fullPath)).sort()) {
+                    await visit(path.join(fullPath, child));
+                }
+            }
+        };
+
+        for (const source of target.sources) {
+            await visit(source);
+        }
+        return entries;
+    }
+
+    private commonParent(sources: string[], serverPath: string): string {
+        if (sources.includes(serverPath)) {
+            return serverPath;
+        }
+        let parent = path.dirname(sources[0]);
+        for (const source of sources.slice(1)) {
+            while (parent !== serverPath && !source.startsWith(parent + path.sep)) {
+                parent = path.dirname(parent);
+            }
+        }
+        return parent;
+    }
+}
@@ -0,0 +1,456 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { constants, createReadStream, lstatSync } from 'fs';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { createGunzip } from 'zlib';
+import * as tar from 'tar';
+import unzipper from 'unzipper';
+import { ExternalFilter } from './ExternalFilter.js';
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'tar.xz' | 'tar.bz2' | 'gz';
+
+export interface ExtractionLimits {
+    maxSize: number;         // Bytes an archive may unpack to
+    maxFiles: number;        // Entries an archive may contain
+}
+
+export interface ExtractionProgress {
+    percent: number;         // Of the archive read so far
+    entries: number;
+    bytes: number;           // Uncompressed bytes written
+}
+
+export interface RejectedEntry {
+    path: string;
+    reason: string;
+}
+
+export interface ExtractionResult {
+    entries: number;
+    bytes: number;
+    rejected: RejectedEntry[];
+}
+
+export interface ExtractionTarget {
+    serverPath: string;      // Server directory
+    destination: string;     // Absolute extraction directory inside it
+    // Resolves an entry path relative to the server directory, throwing when it escapes it
+    resolve: (relativePath: string) => string;
+    // Called with the bytes unpacked so far; returns an error to stop the extraction (disk quota)
+    checkQuota: (bytes: number) => Error | null;
+}
+
+export class ArchiveLimitError extends Error {
+    limit: 'size' | 'files';
+
+    constructor(limit: 'size' | 'files', message: string) {
+        super(message);
+        this.name = 'ArchiveLimitError';
+        this.limit = limit;
+    }
+}
+
+// An entry that is skipped rather than failing the whole extraction
+class UnsafeEntryError extends Error { }
+
+// Longest suffix first, so "world.tar.gz" isn't taken for a plain gzip file
+const FORMAT_SUFFIXES: Array<[string, ArchiveFormat]> = [
+    ['.tar.gz', 'tar.gz'],
+    ['.tgz', 'tar.gz'],
+    ['.tar.xz', 'tar.xz'],
+    ['.txz', 'tar.xz'],
+    ['.tar.bz2', 'tar.bz2'],
+    ['.tbz2', 'tar.bz2'],
+    ['.tbz', 'tar.bz2'],
+    ['.tar', 'tar'],
+    ['.zip', 'zip'],
+    ['.gz', 'gz'],
+];
+
+// Node has no xz or bzip2 support, these stream through the system tools
+const EXTERNAL_DECOMPRESSORS: Partial<Record<ArchiveFormat, string>> = {
+    'tar.xz': 'xz',
+    'tar.bz2': 'bzip2',
+};
+
+const PROGRESS_INTERVAL_MS = 500;
+
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+
+/**
+ * Unpacks archives into a server directory. Entries that would land outside
+ * the server, links pointing outside it and writes through existing symlinks
+ * are skipped and reported; archives that unpack to more than the configured
+ * size or number of files are stopped.
+ */
+export class ArchiveExtractor {
+    private limits: ExtractionLimits;
+
+    constructor(limits: ExtractionLimits) {
+        this.limits = limits;
+    }
+
+    static detectFormat(fileName: string): ArchiveFormat | null {
+        const name = fileName.toLowerCase();
+        const match = FORMAT_SUFFIXES.find(([suffix]) => name.endsWith(suffix));
+        return match ? match[1] : null;
+    }
+
+    async extract(
+        archivePath: string,
+        target: ExtractionTarget,
+        onProgress?: (progress: ExtractionProgress) => void
+    ): Promise<ExtractionResult> {
+        const format = ArchiveExtractor.detectFormat(archivePath);
+        if (!format) {
+            throw new Error('Unsupported archive format. Use zip, tar, tar.gz, tar.xz, tar.bz2 or gz.');
+        }
+
+        const { size: archiveSize } = await fs.stat(archivePath);
+        await this.makeDirectory(target.destination, target);
+        const result: ExtractionResult = { entries: 0, bytes: 0, rejected: [] };
+        let read = 0;
+        let reportedAt = 0;
+        const report = (done = false) => {
+            if (!onProgress || (!done && Date.now() - reportedAt < PROGRESS_INTERVAL_MS)) {
+                return;
+            }
+            reportedAt = Date.now();
+            onProgress({
+                percent: done ? 100 : Math.min(99, Math.floor((read / Math.max(archiveSize, 1)) * 100)),
+                entries: result.entries,
+                bytes: result.bytes,
+            });
+        };
+        const onRead = (bytes: number) => {
+            read += bytes;
+            report();
+        };
+
+        switch (format) {
+            case 'zip':
+                await this.extractZip(archivePath, target, result, onRead);
+                break;
+            case 'gz':
+                await this.extractGzip(archivePath, target, result, onRead);
+                break;
+            default:
+                await this.extractTar(archivePath, format, target, result, onRead);
+        }
+
+        report(true);
+        return result;
+    }
+
+    private async extractTar(
+        archivePath: string,
+        format: ArchiveFormat,
+        target: ExtractionTarget,
+        result: ExtractionResult,
+        onRead: (bytes: number) => void
+    ): Promise<void> {
+        const source = createReadStream(archivePath);
+        source.on('data', (chunk) => onRead(chunk.length));
+        // tar writes entries after filtering them, so links of this archive may not be on disk yet
+        const links = new Set<string>();
+
+        let failure: Error | null = null;
+        const abort = (error: Error) => {
+            failure = failure || error;
+            source.destroy();
+        };
+
+        const unpack = new tar.Unpack({
+            cwd: target.destination,
+            // Files belong to the daemon, not to whatever uids the archive recorded
+            preserveOwner: false,
+            filter: (entryPath, entry) => {
+                if (failure || !(entry instanceof tar.ReadEntry)) {
+                    return false;
+                }
+                const reason = this.checkTarEntry(entry, target, links);
+                if (reason) {
+                    result.rejected.push({ path: entryPath, reason });
+                    return false;
+                }
+
+                if (++result.entries > this.limits.maxFiles) {
+                    abort(this.fileLimitError());
+                    return false;
+                }
+                if (entry.type === 'File' || entry.type === 'OldFile' || entry.type === 'ContiguousFile') {
+                    result.bytes += entry.size || 0;
+                    const error = this.checkSize(result.bytes, target);
+                    if (error) {
+                        abort(error);
+                        return false;
+                    }
+                }
+                // No setuid, setgid or sticky bits from uploaded archives
+                entry.mode = (entry.mode ?? 0o644) & 0o777;
+                return true;
+            },
+            // Entries tar refuses itself, like writes through a symlinked directory
+            onwarn: (code, message, data) => {
+                if (code === 'TAR_ENTRY_ERROR' && data.entry) {
+                    result.rejected.push({ path: data.entry.path, reason: message });
+                }
+            },
+        });
+
+        const decompressor = EXTERNAL_DECOMPRESSORS[format];
+        const external = decompressor ? ExternalFilter.spawn(decompressor, ['-dc']) : null;
+
+        await new Promise<void>((resolve, reject) => {
+            const fail = (error: Error) => {
+                abort(error);
+                external?.stream.destroy();
+                reject(failure);
+            };
+            source.on('error', fail);
+            source.on('close', () => {
+                // Destroyed by abort(); the parser won't finish on its own
+                if (failure) {
+                    reject(failure);
+                }
+            });
+            unpack.on('error', fail);
+            unpack.on('close', () => resolve());
+
+            if (external) {
+                external.stream.on('error', fail);
+                source.pipe(external.stream).pipe(unpack);
+            } else {
+                // Unpack recognises gzip by itself
+                source.pipe(unpack);
+            }
+        });
+
+        await external?.exited;
+        if (failure) {
+            throw failure;
+        }
+    }
+
+    // Reason the entry is refused, if it is
+    private checkTarEntry(entry: tar.ReadEntry, target: ExtractionTarget, links: Set<string>): string | null {
+        let entryPath: string;
+        try {
+            entryPath = target.resolve(this.relativeEntryPath(target, entry.path));
+        } catch {
+            return 'path is outside the server directory';
+        }
+
+        if (entry.type === 'SymbolicLink') {
+            const reason = this.checkLinkTarget(path.dirname(entryPath), entry.linkpath, target, links);
+            if (!reason) {
+                links.add(entryPath);
+            }
+            return reason;
+        }
+        if (entry.type === 'Link') {
+            // Hard link targets are relative to the archive root
+            return this.checkLinkTarget(target.destination, entry.linkpath, target, links);
+        }
+        return null;
+    }
+
+    // Targets are resolved on paper, so they may not step through other links: `a/l1 -> l2/../../..`
+    // stays inside lexically but follows `a/l2 -> ..` on disk
+    private checkLinkTarget(base: string, linkpath: string | undefined, target: ExtractionTarget, links: Set<string>): string | null {
+        if (!linkpath || path.isAbsolute(linkpath) || !this.isInside(path.resolve(base, linkpath), target.serverPath)) {
+            return `link points outside the server directory (${linkpath || 'empty'})`;
+        }
+
+        const parts = linkpath.replace(/\\/g, '/').split('/').filter(part => part && part !== '.');
+        let current = base;
+        let named = false;
+        for (const [index, part] of parts.entries()) {
+            if (part === '..') {
+                // `x/..` is only the parent of x as long as x never becomes a link
+                if (named) {
+                    return `link goes back up after a name (${linkpath})`;
+                }
+                current = path.dirname(current);
+                continue;
+            }
+            named = true;
+            current = path.join(current, part);
+            const isLink = links.has(current) || lstatSync(current, { throwIfNoEntry: false })?.isSymbolicLink();
+            if (index < parts.length - 1 && isLink) {
+                return `link goes through symbolic link ${path.relative(target.serverPath, current)}`;
+            }
+        }
+        return null;
+    }
+
+    private async extractZip(
+        archivePath: string,
+        target: ExtractionTarget,
+        result: ExtractionResult,
+        onRead: (bytes: number) => void
+    ): Promise<void> {
+        const directory = await unzipper.Open.file(archivePath);
+
+        // The central directory lists every entry up front, so obvious bombs never get unpacked
+        if (directory.files.length > this.limits.maxFiles) {
+            throw this.fileLimitError();
+        }
+        const declared = directory.files.reduce((total, file) => total + file.uncompressedSize, 0);
+        const error = this.checkSize(declared, target);
+        if (error) {
+            throw error;
+        }
+
+        const links = new Set<string>();
+        for (const file of directory.files) {
+            onRead(file.compressedSize);
+
+            let entryPath: string;
+            try {
+                entryPath = target.resolve(this.relativeEntryPath(target, file.path));
+            } catch {
+                result.rejected.push({ path: file.path, reason: 'path is outside the server directory' });
+                continue;
+            }
+            // Like tar, entries stay inside the directory they are extracted to
+            if (!this.isInside(entryPath, target.destination)) {
+                result.rejected.push({ path: file.path, reason: 'path is outside the extraction directory' });
+                continue;
+            }
+
+            try {
+                const unixMode = file.externalFileAttributes >>> 16;
+                if (file.type === 'Directory') {
+                    await this.makeDirectory(entryPath, target);
+                } else if ((unixMode & S_IFMT) === S_IFLNK) {
+                    const linkpath = (await file.buffer()).toString('utf-8');
+                    const reason = this.checkLinkTarget(path.dirname(entryPath), linkpath, target, links);
+                    if (reason) {
+                        throw new UnsafeEntryError(reason);
+                    }
+                    await this.makeDirectory(path.dirname(entryPath), target);
+                    await this.replaceWithLink(entryPath, linkpath);
+                    links.add(entryPath);
+                } else {
+                    await this.makeDirectory(path.dirname(entryPath), target);
+                    // Sizes in the central directory can lie, so what is actually written is counted as well
+                    await this.writeFile(entryPath, file.stream(), unixMode & 0o111 ? 0o755 : 0o644, result, target);
+                }
+                result.entries++;
+            } catch (error) {
+                // Refused entries are reported and skipped, anything else (limits, I/O) stops the extraction
+                if (!(error instanceof UnsafeEntryError)) {
+                    throw error;
+                }
+                result.rejected.push({ path: file.path, reason: error.message });
+            }
+        }
+    }
+
+    private async extractGzip(
+        archivePath: string,
+        target: ExtractionTarget,
+        result: ExtractionResult,
+        onRead: (bytes: number) => void
+    ): Promise<void> {
+        const name = path.basename(archivePath).replace(/\.gz$/i, '');
+        const outputPath = target.resolve(this.relativeEntryPath(target, name));
+        await this.makeDirectory(path.dirname(outputPath), target);
+
+        const source = createReadStream(archivePath);
+        source.on('data', (chunk) => onRead(chunk.length));
+        const gunzip = createGunzip();
+        source.on('error', (error) => gunzip.destroy(error));
+
+        await this.writeFile(outputPath, source.pipe(gunzip), 0o644, result, target);
+        result.entries++;
+    }
+
+    private async writeFile(
+        filePath: string,
+        input: Readable,
+        mode: number,
+        result: ExtractionResult,
+        target: ExtractionTarget
+    ): Promise<void> {
+        const existing = await fs.lstat(filePath).catch(() => null);
+        if (existing?.isDirectory()) {
+            throw new UnsafeEntryError('a directory with this name already exists');
+        }
+        // Replace links instead of writing through them
+        if (existing && !existing.isFile()) {
+            await fs.unlink(filePath);
+        }
+
+        const counter = new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                result.bytes += chunk.length;
+                callback(this.checkSize(result.bytes, target), chunk);
+            },
+        });
+
+        // O_NOFOLLOW in case a link appeared since the check
+        const handle = await fs.open(filePath, constants.O_WRONLY | constants.O_CREAT | constants.O_TRUNC | constants.O_NOFOLLOW, mode);
+        try {
+            await pipeline(input, counter, handle.createWriteStream());
+        } catch (error) {
+            // Don't leave half of a bomb behind
+            await fs.rm(filePath, { force: true });
+            throw error;
+        }
+    }
+
+    // Create a directory, refusing to go through symlinks that may lead out of the server
+    private async makeDirectory(directory: string, target: ExtractionTarget): Promise<void> {
+        const relative = path.relative(target.serverPath, directory);
+        let current = target.serverPath;
+        for (const part of relative ? relative.split(path.sep) : []) {
+            current = path.join(current, part);
+            const stats = await fs.lstat(current).catch(() => null);
+            if (!stats) {
+                await fs.mkdir(current);
+            } else if (stats.isSymbolicLink()) {
+                throw new UnsafeEntryError(`cannot extract through symbolic link ${path.relative(target.serverPath, current)}`);
+            } else if (!stats.isDirectory()) {
+                throw new UnsafeEntryError(`${path.relative(target.serverPath, current)} is not a directory`);
+            }
+        }
+    }
+
+    private async replaceWithLink(linkPath: string, linkTarget: string): Promise<void> {
+        const existing = await fs.lstat(linkPath).catch(() => null);
+        if (existing?.isDirectory()) {
+            throw new UnsafeEntryError('a directory with this name already exists');
+        }
+        if (existing) {
+            await fs.unlink(linkPath);
+        }
+        await fs.symlink(linkTarget, linkPath);
+    }
+
+    // Entry paths are relative to the extraction directory; resolve() wants them relative to the server
+    private relativeEntryPath(target: ExtractionTarget, entryPath: string): string {
+        return path.join(path.relative(target.serverPath, target.destination), entryPath.replace(/\\/g, '/'));
+    }
+
+    private isInside(child: string, parent: string): boolean {
+        return child === parent || child.startsWith(parent + path.sep);
+    }
+
+    private checkSize(bytes: number, target: ExtractionTarget): Error | null {
+        return bytes > this.limits.maxSize ? this.sizeLimitError() : target.checkQuota(bytes);
+    }
+
+    private fileLimitError(): ArchiveLimitError {
+        return new ArchiveLimitError('files', `Archive has more than ${this.limits.maxFiles} entries, extraction stopped`);
+    }
+
+    private sizeLimitError(): ArchiveLimitError {
+        const mb = Math.round(this.limits.maxSize / (1024 * 1024));
+        return new ArchiveLimitError('size', `Archive unpacks to more than ${mb} MB, extraction stopped`);
+    }
+}
+
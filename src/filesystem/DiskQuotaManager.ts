@@ -0,0 +1,249 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface DiskQuotaOptions {
+    scanInterval: number;    // ms between usage scans of servers with a limit
+    stopAfter: number;       // ms a running server may stay over its limit before it's stopped (0 = never)
+}
+
+export interface DiskUsage {
+    used: number;            // Bytes
+    limit: number;           // Bytes, 0 = unlimited
+    scannedAt: number;
+}
+
+export interface QuotaViolation {
+    serverId: string;
+    used: number;
+    limit: number;
+    action: 'warn' | 'stop';
+    stopAt?: string;         // When a warned server will be stopped
+}
+
+export class DiskQuotaError extends Error {
+    serverId: string;
+    used: number;
+    limit: number;
+
+    constructor(serverId: string, used: number, limit: number, writing: number = 0) {
+        const mb = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+        super(used >= limit
+            ? `Disk quota exceeded: ${mb(used)} MB used of ${mb(limit)} MB, free up space first`
+            : `Disk quota exceeded: writing ${mb(writing)} MB would go over the ${mb(limit)} MB limit (${mb(used)} MB used)`);
+        this.name = 'DiskQuotaError';
+        this.serverId = serverId;
+        this.used = used;
+        this.limit = limit;
+    }
+}
+
+interface CachedUsage {
+    used: number;
+    scannedAt: number;
+}
+
+/**
+ * Enforces the panel's per-server disk limit. Usage comes from a periodic scan
+ * of each server directory, adjusted in between for writes made through the
+ * daemon. Limits are persisted so they hold across daemon restarts.
+ */
+export class DiskQuotaManager {
+    private dataDirectory: string;
+    private storePath: string;
+    private options: DiskQuotaOptions;
+    private isRunning: (serverId: string) => boolean;
+    private onViolation: (violation: QuotaViolation) => void;
+    private limits: Map<string, number> = new Map();
+    private usage: Map<string, CachedUsage> = new Map();
+    private scans: Map<string, Promise<number>> = new Map();
+    // When each running server was first seen over its limit
+    private exceededSince: Map<string, number> = new Map();
+    private timer?: NodeJS.Timeout;
+
+    constructor(
+        dataDirectory: string,
+        stateDirectory: string,
+        options: DiskQuotaOptions,
+        isRunning: (serverId: string) => boolean,
+        onViolation: (violation: QuotaViolation) => void
+    ) {
+        this.dataDirectory = dataDirectory;
+        this.storePath = path.join(stateDirectory, 'quotas.json');
+        this.options = options;
+        this.isRunning = isRunning;
+        this.onViolation = onViolation;
+    }
+
+    async load(): Promise<void> {
+        try {
+            const stored: Record<string, number> = JSON.parse(await fs.readFile(this.storePath, 'utf-8'));
+            for (const [serverId, limit] of Object.entries(stored)) {
+                if (limit > 0) {
+                    this.limits.set(serverId, limit);
+                }
+            }
+        } catch {
+            // No limits yet
+        }
+
+        this.timer = setInterval(() => {
+            this.enforce().catch((error) => console.error('[Quota] Disk usage scan failed:', error));
+        }, this.options.scanInterval);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    // Limit in MB as the panel sends it; 0 or nothing removes the limit
+    async setLimit(serverId: string, limitMb?: number): Promise<void> {
+        const limit = limitMb && limitMb > 0 ? Math.round(limitMb * 1024 * 1024) : 0;
+        if ((this.limits.get(serverId) || 0) === limit) {
+            return;
+        }
+
+        if (limit > 0) {
+            this.limits.set(serverId, limit);
+        } else {
+            this.limits.delete(serverId);
+            this.exceededSince.delete(serverId);
+        }
+        await this.persist();
+    }
+
+    async removeServer(serverId: string): Promise<void> {
+        this.usage.delete(serverId);
+        this.exceededSince.delete(serverId);
+        if (this.limits.delete(serverId)) {
+            await this.persist();
+        }
+    }
+
+    // Usage from the last scan, rescanning when it's older than the scan interval
+    async getUsage(serverId: string): Promise<DiskUsage> {
+        const cached = this.usage.get(serverId);
+        const used = cached && Date.now() - cached.scannedAt < this.options.scanInterval
+            ? cached.used
+            : await this.scan(serverId);
+
+        return {
+            used,
+            limit: this.limits.get(serverId) || 0,
+            scannedAt: this.usage.get(serverId)?.scannedAt || Date.now(),
+        };
+    }
+
+    // Cached usage without waiting for a scan; a stale or missing value is refreshed in the background
+    getCachedUsage(serverId: string): DiskUsage | null {
+        const cached = this.usage.get(serverId);
+        if (!cached || Date.now() - cached.scannedAt >= this.options.scanInterval) {
+            this.scan(serverId).catch(() => { });
+        }
+        if (!cached) {
+            return null;
+        }
+        return { used: cached.used, limit: this.limits.get(serverId) || 0, scannedAt: cached.scannedAt };
+    }
+
+    // Throws when the server is over its limit, or would be after writing `bytes` more
+    async assertWritable(serverId: string, bytes: number = 0): Promise<void> {
+        const limit = this.limits.get(serverId);
+        if (!limit) {
+            return;
+        }
+
+        const { used } = await this.getUsage(serverId);
+        if (used >= limit || used + bytes > limit) {
+            throw new DiskQuotaError(serverId, used, limit, bytes);
+        }
+    }
+
+    // Account for a write (or a deletion, with negative bytes) made through the daemon
+    recordWrite(serverId: string, bytes: number): void {
+        const cached = this.usage.get(serverId);
+        if (cached) {
+            cached.used = Math.max(0, cached.used + bytes);
+        }
+    }
+
+    // Forget the cached usage after changes too large to account for one by one
+    invalidate(serverId: string): void {
+        this.usage.delete(serverId);
+    }
+
+    private async enforce(): Promise<void> {
+        for (const [serverId, limit] of this.limits) {
+            const used = await this.scan(serverId);
+
+            if (used <= limit || !this.isRunning(serverId)) {
+                this.exceededSince.delete(serverId);
+                continue;
+            }
+
+            const since = this.exceededSince.get(serverId);
+            if (since === undefined) {
+                this.exceededSince.set(serverId, Date.now());
+                this.onViolation({
+                    serverId,
+                    used,
+                    limit,
+                    action: 'warn',
+                    stopAt: this.options.stopAfter > 0
+                        ? new Date(Date.now() + this.options.stopAfter).toISOString()
+                        : undefined,
+                });
+            } else if (this.options.stopAfter > 0 && Date.now() - since >= this.options.stopAfter) {
+                this.exceededSince.delete(serverId);
+                this.onViolation({ serverId, used, limit, action: 'stop' });
+            }
+        }
+    }
+
+    private scan(serverId: string): Promise<number> {
+        // Concurrent requests share one walk of the directory
+        let scan = this.scans.get(serverId);
+        if (!scan) {
+            scan = this.measure(path.join(this.dataDirectory, serverId))
+                .then((used) => {
+                    this.usage.set(serverId, { used, scannedAt: Date.now() });
+                    return used;
+                })
+                .finally(() => this.scans.delete(serverId));
+            this.scans.set(serverId, scan);
+        }
+        return scan;
+    }
+
+    // Symlinks (mounts) are not followed, their targets don't belong to the server
+    private async measure(directory: string): Promise<number> {
+        let entries;
+        try {
+            entries = await fs.readdir(directory, { withFileTypes: true });
+        } catch {
+            return 0;
+        }
+
+        let total = 0;
+        for (const entry of entries) {
+            const entryPath = path.join(directory, entry.name);
+            if (entry.isDirectory()) {
+                total += await this.measure(entryPath);
+            } else if (entry.isFile()) {
+                try {
+                    total += (await fs.lstat(entryPath)).size;
+                } catch {
+                    // Deleted while scanning
+                }
+            }
+        }
+        return total;
+    }
+
+    private async persist(): Promise<void> {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        await fs.writeFile(this.storePath, JSON.stringify(Object.fromEntries(this.limits), null, 2), { mode: 0o600 });
+    }
+}
@@ -0,0 +1,127 @@
+import { randomUUID } from 'crypto';
+import { FileManager } from './FileManager.js';
+import { DiskQuotaError } from './DiskQuotaManager.js';
+import { DownloadError, DownloadErrorCode, DownloadProgress } from './RemoteDownloader.js';
+
+export type DownloadStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface DownloadJob {
+    id: string;
+    serverId: string;
+    url: string;
+    path: string;
+    status: DownloadStatus;
+    bytes: number;
+    total?: number;
+    percent?: number;
+    startedAt: string;
+    finishedAt?: string;
+    error?: string;
+    code?: DownloadErrorCode | 'DISK_QUOTA_EXCEEDED';
+}
+
+export interface DownloadOptions {
+    sha1?: string;
+    sha256?: string;
+}
+
+export interface DownloadCallbacks {
+    onProgress: (job: DownloadJob) => void;
+    onFinish: (job: DownloadJob) => void;
+}
+
+// Finished jobs stay listed this long so the panel can pick up the result after a reconnect
+const FINISHED_RETENTION_MS = 60 * 60 * 1000;
+
+/**
+ * Runs remote downloads in the background. The panel gets the job id back
+ * right away and follows the job through progress and finish events, or by
+ * listing the jobs of a server.
+ */
+export class DownloadManager {
+    private fileManager: FileManager;
+    private callbacks: DownloadCallbacks;
+    private jobs: Map<string, DownloadJob> = new Map();
+    private controllers: Map<string, AbortController> = new Map();
+
+    constructor(fileManager: FileManager, callbacks: DownloadCallbacks) {
+        this.fileManager = fileManager;
+        this.callbacks = callbacks;
+    }
+
+    start(serverId: string, url: string, filePath: string, options: DownloadOptions = {}): DownloadJob {
+        this.prune();
+
+        const job: DownloadJob = {
+            id: randomUUID(),
+            serverId,
+            url,
+            path: filePath,
+            status: 'running',
+            bytes: 0,
+            startedAt: new Date().toISOString(),
+        };
+        const controller = new AbortController();
+        this.jobs.set(job.id, job);
+        this.controllers.set(job.id, controller);
+
+        this.fileManager.downloadFile(serverId, url, filePath, {
+            ...options,
+            signal: controller.signal,
+            onProgress: (progress: DownloadProgress) => {
+                Object.assign(job, progress);
+                this.callbacks.onProgress({ ...job });
+            },
+        }).then((result) => {
+            job.status = 'completed';
+            job.bytes = result.size;
+        }, (error) => {
+            job.status = error instanceof DownloadError && error.code === 'CANCELLED' ? 'cancelled' : 'failed';
+            job.error = error instanceof Error ? error.message : 'Download failed';
+            job.code = error instanceof DownloadError ? error.code : error instanceof DiskQuotaError ? 'DISK_QUOTA_EXCEEDED' : undefined;
+        }).finally(() => {
+            job.finishedAt = new Date().toISOString();
+            this.controllers.delete(job.id);
+            this.callbacks.onFinish({ ...job });
+        });
+
+        return { ...job };
+    }
+
+    // Newest first
+    list(serverId?: string): DownloadJob[] {
+        this.prune();
+        return Array.from(this.jobs.values())
+            .filter(job => !serverId || job.serverId === serverId)
+            .map(job => ({ ...job }))
+            .reverse();
+    }
+
+    cancel(serverId: string, id: string): boolean {
+        const job = this.jobs.get(id);
+        const controller = this.controllers.get(id);
+        if (!job || job.serverId !== serverId || !controller) {
+            return false;
+        }
+        controller.abort();
+        return true;
+    }
+
+    // Stops every download of a server that is being deleted
+    cancelServer(serverId: string): void {
+        for (const job of this.jobs.values()) {
+            if (job.serverId === serverId) {
+                this.controllers.get(job.id)?.abort();
+            }
+        }
+    }
+
+    private prune(): void {
+        const cutoff = Date.now() - FINISHED_RETENTION_MS;
+        for (const [id, job] of this.jobs) {
+            if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+                this.jobs.delete(id);
+            }
+        }
+    }
+}
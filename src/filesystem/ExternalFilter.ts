@@ -0,0 +1,49 @@
+import { spawn } from 'child_process';
+import { Duplex } from 'stream';
+
+export interface ExternalFilterProcess {
+    stream: Duplex;          // stdin in, stdout out
+    exited: Promise<void>;   // Rejects when the tool fails; await it after the stream is done
+}
+
+/**
+ * Streams data through a command line tool (xz, bzip2, zstd) for the
+ * compression formats Node has no built-in support for.
+ */
+export class ExternalFilter {
+    static spawn(binary: string, args: string[]): ExternalFilterProcess {
+        const child = spawn(binary, args, { stdio: ['pipe', 'pipe', 'pipe'] });
+        const stream = Duplex.from({ writable: child.stdin, readable: child.stdout });
+
+        let stderr = '';
+        child.stderr.on('data', (chunk) => {
+            stderr += chunk;
+        });
+
+        const exited = new Promise<void>((resolve, reject) => {
+            child.on('error', (error: NodeJS.ErrnoException) => {
+                const failure = new Error(error.code === 'ENOENT' ? `${binary} is not installed on this node` : error.message);
+                stream.destroy(failure);
+                reject(failure);
+            });
+            child.on('close', (code, signal) => {
+                if (code === 0 || signal) {
+                    resolve();
+                } else {
+                    reject(new Error(`${binary} failed: ${stderr.trim() || `exit code ${code}`}`));
+                }
+            });
+        });
+        // Until the stream is done, failures surface through the stream
+        exited.catch(() => { });
+
+        // Stop the tool when the caller gives up early
+        stream.on('close', () => {
+            if (child.exitCode === null) {
+                child.kill();
+            }
+        });
+
+        return { stream, exited };
+    }
+}
@@ -1,8 +1,14 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { createReadStream, createWriteStream } from 'fs';
-import archiver from 'archiver';
-import * as tar from 'tar';
+import { randomUUID } from 'crypto';
+import { constants } from 'fs';
+import { Readable, Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+import { DiskQuotaError, DiskQuotaManager } from './DiskQuotaManager.js';
+import { ArchiveExtractor, ExtractionLimits, ExtractionProgress, ExtractionResult } from './ArchiveExtractor.js';
+import { ArchiveCreator, ArchiveCreationOptions, ARCHIVE_SUFFIXES } from './ArchiveCreator.js';
+import { DownloadLimits, DownloadRequest, RemoteDownloader } from './RemoteDownloader.js';
+import { MountManager } from '../process/MountManager.js';
 
 interface FileInfo {
     name: string;
@@ -13,11 +19,37 @@ interface FileInfo {
     permissions: string;
 }
 
+const DEFAULT_EXTRACTION_LIMITS: ExtractionLimits = {
+    maxSize: 10 * 1024 * 1024 * 1024,
+    maxFiles: 100000,
+};
+
+const DEFAULT_DOWNLOAD_LIMITS: DownloadLimits = {
+    maxSize: 2 * 1024 * 1024 * 1024,
+    timeout: 60 * 60 * 1000,
+    allowPrivateNetworks: false,
+};
+
 export class FileManager {
     private baseDirectory: string;
-
-    constructor(baseDirectory: string) {
+    private quotas?: DiskQuotaManager;
+    private mounts?: MountManager;
+    private extractor: ArchiveExtractor;
+    private creator = new ArchiveCreator();
+    private downloader: RemoteDownloader;
+
+    constructor(
+        baseDirectory: string,
+        quotas?: DiskQuotaManager,
+        mounts?: MountManager,
+        extractionLimits: ExtractionLimits = DEFAULT_EXTRACTION_LIMITS,
+        downloadLimits: DownloadLimits = DEFAULT_DOWNLOAD_LIMITS
+    ) {
         this.baseDirectory = baseDirectory;
+        this.quotas = quotas;
+        this.mounts = mounts;
+        this.extractor = new ArchiveExtractor(extractionLimits);
+        this.downloader = new RemoteDownloader(downloadLimits);
     }
 
     private resolvePath(serverId: string, filePath: string): string {
@@ -48,6 +80,24 @@ export class FileManager {
         return resolved;
     }
 
+    // Resolve a path that is about to be changed; read-only mounts can't be written through
+    private resolveWritablePath(serverId: string, filePath: string): string {
+        const resolved = this.resolvePath(serverId, filePath);
+        const mount = this.mounts?.getReadOnlyMount(serverId, path.resolve(this.baseDirectory, serverId), resolved);
+        if (mount) {
+            throw new Error(`Access denied: ${mount.target} is a read-only mount`);
+        }
+        return resolved;
+    }
+
+    // Mount links stay where they were made: the read-only check goes by their path
+    private assertNoMount(serverId: string, fullPath: string): void {
+        const mount = this.mounts?.getMountWithin(serverId, path.resolve(this.baseDirectory, serverId), fullPath);
+        if (mount) {
+            throw new Error(`Access denied: ${mount.target} is a mount`);
+        }
+    }
+
     async listDirectory(serverId: string, dirPath: string = '/'): Promise<FileInfo[]> {
         const fullPath = this.resolvePath(serverId, dirPath);
 
@@ -82,7 +132,13 @@ export class FileManager {
     }
 
     async writeFile(serverId: string, filePath: string, content: string | Buffer): Promise<void> {
-        const fullPath = this.resolvePath(serverId, filePath);
+        const fullPath = this.resolveWritablePath(serverId, filePath);
+
+        // Overwriting a file only costs the difference in size
+        const previousSize = await fs.stat(fullPath).then(stats => stats.size, () => 0);
+        const growth = Buffer.byteLength(content) - previousSize;
+        await this.quotas?.assertWritable(serverId, Math.max(growth, 0));
+
         await fs.mkdir(path.dirname(fullPath), { recursive: true });
         // Write as buffer if binary, otherwise as utf-8 string
         if (Buffer.isBuffer(content)) {
@@ -90,41 +146,54 @@ export class FileManager {
         } else {
             await fs.writeFile(fullPath, content, 'utf-8');
         }
+        this.quotas?.recordWrite(serverId, growth);
     }
 
     async createDirectory(serverId: string, dirPath: string): Promise<void> {
-        const fullPath = this.resolvePath(serverId, dirPath);
+        const fullPath = this.resolveWritablePath(serverId, dirPath);
+        await this.quotas?.assertWritable(serverId);
         await fs.mkdir(fullPath, { recursive: true });
     }
 
     async deleteFile(serverId: string, filePath: string): Promise<void> {
-        const fullPath = this.resolvePath(serverId, filePath);
+        const fullPath = this.resolveWritablePath(serverId, filePath);
+        this.assertNoMount(serverId, fullPath);
         const stats = await fs.stat(fullPath);
 
         if (stats.isDirectory()) {
             await fs.rm(fullPath, { recursive: true });
+            this.quotas?.invalidate(serverId);
         } else {
             await fs.unlink(fullPath);
+            this.quotas?.recordWrite(serverId, -stats.size);
         }
     }
 
     async renameFile(serverId: string, oldPath: string, newPath: string): Promise<void> {
-        const fullOldPath = this.resolvePath(serverId, oldPath);
-        const fullNewPath = this.resolvePath(serverId, newPath);
+        const fullOldPath = this.resolveWritablePath(serverId, oldPath);
+        const fullNewPath = this.resolveWritablePath(serverId, newPath);
+        this.assertNoMount(serverId, fullOldPath);
+        this.assertNoMount(serverId, fullNewPath);
         await fs.rename(fullOldPath, fullNewPath);
     }
 
     async copyFile(serverId: string, sourcePath: string, destPath: string): Promise<void> {
         const fullSourcePath = this.resolvePath(serverId, sourcePath);
-        const fullDestPath = this.resolvePath(serverId, destPath);
+        const fullDestPath = this.resolveWritablePath(serverId, destPath);
+        // Copying into a folder that holds a mount would write through its link
+        this.assertNoMount(serverId, fullDestPath);
 
         const stats = await fs.stat(fullSourcePath);
 
         if (stats.isDirectory()) {
+            await this.quotas?.assertWritable(serverId);
             await this.copyDirectory(fullSourcePath, fullDestPath);
+            this.quotas?.invalidate(serverId);
         } else {
+            await this.quotas?.assertWritable(serverId, stats.size);
             await fs.mkdir(path.dirname(fullDestPath), { recursive: true });
             await fs.copyFile(fullSourcePath, fullDestPath);
+            this.quotas?.recordWrite(serverId, stats.size);
         }
     }
 
@@ -148,50 +217,69 @@ export class FileManager {
         serverId: string,
         filePaths: string[],
         outputName: string,
-        format: 'zip' | 'tar.gz' = 'zip'
-    ): Promise<string> {
-        const serverDir = path.join(this.baseDirectory, serverId);
-        const outputPath = path.join(serverDir, outputName);
-
-        return new Promise((resolve, reject) => {
-            const output = createWriteStream(outputPath);
-
-            let archive: archiver.Archiver;
-            if (format === 'zip') {
-                archive = archiver('zip', { zlib: { level: 9 } });
-            } else {
-                archive = archiver('tar', { gzip: true });
-            }
-
-            output.on('close', () => resolve(outputPath));
-            archive.on('error', reject);
-
-            archive.pipe(output);
-
-            for (const filePath of filePaths) {
-                const fullPath = this.resolvePath(serverId, filePath);
-                archive.file(fullPath, { name: path.basename(filePath) });
-            }
-
-            archive.finalize();
-        });
+        options: ArchiveCreationOptions = { format: 'zip' }
+    ): Promise<{ path: string; entries: number; size: number }> {
+        if (filePaths.length === 0) {
+            throw new Error('No files selected');
+        }
+        const suffix = ARCHIVE_SUFFIXES[options.format];
+        if (!suffix) {
+            throw new Error(`Unsupported archive format: ${options.format}`);
+        }
+        const outputPath = this.resolveWritablePath(serverId, outputName.endsWith(suffix) ? outputName : outputName + suffix);
+        this.assertNoMount(serverId, outputPath);
+        const sources = filePaths.map(filePath => this.resolvePath(serverId, filePath));
+
+        await this.quotas?.assertWritable(serverId);
+        const usage = await this.quotas?.getUsage(serverId);
+        const serverPath = this.resolvePath(serverId, '/');
+
+        try {
+            const result = await this.creator.create({
+                serverPath,
+                sources,
+                output: outputPath,
+                checkQuota: (bytes) => usage?.limit && usage.used + bytes > usage.limit
+                    ? new DiskQuotaError(serverId, usage.used, usage.limit, bytes)
+                    : null,
+            }, options);
+            return { path: '/' + path.relative(serverPath, outputPath).split(path.sep).join('/'), ...result };
+        } finally {
+            this.quotas?.invalidate(serverId);
+        }
     }
 
-    async extractArchive(serverId: string, archivePath: string, destPath: string): Promise<void> {
+    async extractArchive(
+        serverId: string,
+        archivePath: string,
+        destPath: string,
+        onProgress?: (progress: ExtractionProgress) => void
+    ): Promise<ExtractionResult> {
         const fullArchivePath = this.resolvePath(serverId, archivePath);
-        const fullDestPath = this.resolvePath(serverId, destPath);
-
-        await fs.mkdir(fullDestPath, { recursive: true });
-
-        const ext = path.extname(archivePath).toLowerCase();
-
-        if (ext === '.tar' || archivePath.endsWith('.tar.gz') || archivePath.endsWith('.tgz')) {
-            await tar.extract({
-                file: fullArchivePath,
-                cwd: fullDestPath,
-            });
-        } else {
-            throw new Error('Unsupported archive format. Use tar, tar.gz, or tgz.');
+        const fullDestPath = this.resolveWritablePath(serverId, destPath);
+
+        await this.quotas?.assertWritable(serverId);
+        const usage = await this.quotas?.getUsage(serverId);
+
+        try {
+            return await this.extractor.extract(fullArchivePath, {
+                serverPath: this.resolvePath(serverId, '/'),
+                destination: fullDestPath,
+                resolve: (relativePath) => {
+                    // Entries may create folders above a mount, but never replace its link
+                    const resolved = this.resolveWritablePath(serverId, relativePath);
+                    const mount = this.mounts?.getMountWithin(serverId, this.resolvePath(serverId, '/'), resolved);
+                    if (mount && this.resolvePath(serverId, mount.target) === resolved) {
+                        throw new Error(`Access denied: ${mount.target} is a mount`);
+                    }
+                    return resolved;
+                },
+                checkQuota: (bytes) => usage?.limit && usage.used + bytes > usage.limit
+                    ? new DiskQuotaError(serverId, usage.used, usage.limit, bytes)
+                    : null,
+            }, onProgress);
+        } finally {
+            this.quotas?.invalidate(serverId);
         }
     }
 
@@ -236,26 +324,102 @@ export class FileManager {
         return results;
     }
 
-    getReadStream(serverId: string, filePath: string) {
+    // end is inclusive, like in an HTTP Range header
+    async getReadStream(serverId: string, filePath: string, range?: { start: number; end: number }) {
         const fullPath = this.resolvePath(serverId, filePath);
-        return createReadStream(fullPath);
+        const handle = await fs.open(fullPath, constants.O_RDONLY | constants.O_NOFOLLOW);
+        return handle.createReadStream(range);
     }
 
-    getWriteStream(serverId: string, filePath: string) {
-        const fullPath = this.resolvePath(serverId, filePath);
-        return createWriteStream(fullPath);
+    // Writing from an offset keeps what's before it, otherwise the file is truncated.
+    // Symlinks aren't followed, a server could point one anywhere on the node
+    async getWriteStream(serverId: string, filePath: string, start?: number) {
+        const fullPath = this.resolveWritablePath(serverId, filePath);
+        const flags = start === undefined ? constants.O_CREAT | constants.O_TRUNC : 0;
+        const handle = await fs.open(fullPath, constants.O_WRONLY | constants.O_NOFOLLOW | flags, 0o644);
+        return handle.createWriteStream({ start });
     }
 
-    async downloadFile(serverId: string, url: string, filePath: string): Promise<void> {
-        const fullPath = this.resolvePath(serverId, filePath);
-        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+    async truncateFile(serverId: string, filePath: string, size: number): Promise<void> {
+        const fullPath = this.resolveWritablePath(serverId, filePath);
+        const handle = await fs.open(fullPath, constants.O_WRONLY | constants.O_NOFOLLOW);
+        try {
+            await handle.truncate(size);
+        } finally {
+            await handle.close();
+        }
+        this.quotas?.invalidate(serverId);
+    }
 
-        const response = await fetch(url);
-        if (!response.ok) {
-            throw new Error(`Failed to download file: ${response.statusText}`);
+    async downloadFile(
+        serverId: string,
+        url: string,
+        filePath: string,
+        request: Omit<DownloadRequest, 'url' | 'checkQuota'> = {}
+    ): Promise<{ path: string; size: number }> {
+        const size = await this.writeAtomically(serverId, filePath, (output, checkQuota) =>
+            this.downloader.fetch({ ...request, url, checkQuota }, output)
+        );
+        return { path: filePath, size };
+    }
+
+    // Stores a stream (e.g. an HTTP upload) as a file; returns its size
+    async saveStream(serverId: string, filePath: string, source: Readable, maxSize?: number): Promise<number> {
+        return this.writeAtomically(serverId, filePath, async (output, checkQuota) => {
+            let bytes = 0;
+            const counter = new Transform({
+                transform: (chunk: Buffer, _encoding, callback) => {
+                    bytes += chunk.length;
+                    if (maxSize !== undefined && bytes > maxSize) {
+                        callback(new Error(`File is larger than the ${maxSize} byte limit`));
+                        return;
+                    }
+                    callback(checkQuota(bytes), chunk);
+                },
+            });
+            await pipeline(source, counter, output);
+            return bytes;
+        });
+    }
+
+    // Sends a zip of files and folders to a stream, with paths relative to their parent folder
+    async streamArchive(serverId: string, filePaths: string[], output: Writable, signal?: AbortSignal): Promise<void> {
+        await this.creator.stream({
+            serverPath: this.resolvePath(serverId, '/'),
+            sources: filePaths.map(filePath => this.resolvePath(serverId, filePath)),
+        }, output, { format: 'zip', signal });
+    }
+
+    // Writes into a temp file next to the destination, which is only replaced once the write succeeded
+    private async writeAtomically(
+        serverId: string,
+        filePath: string,
+        write: (output: Writable, checkQuota: (bytes: number) => Error | null) => Promise<number>
+    ): Promise<number> {
+        const fullPath = this.resolveWritablePath(serverId, filePath);
+        const tempPath = path.join(path.dirname(fullPath), `.${path.basename(fullPath)}.${randomUUID()}.part`);
+        const stats = await fs.stat(fullPath).catch(() => null);
+        if (stats?.isDirectory()) {
+            throw new Error(`${filePath} is a directory`);
         }
 
-        const buffer = await response.arrayBuffer();
-        await fs.writeFile(fullPath, Buffer.from(buffer));
+        await this.quotas?.assertWritable(serverId);
+        const usage = await this.quotas?.getUsage(serverId);
+        await fs.mkdir(path.dirname(fullPath), { recursive: true });
+
+        const handle = await fs.open(tempPath, constants.O_WRONLY | constants.O_CREAT | constants.O_EXCL | constants.O_NOFOLLOW, 0o644);
+        try {
+            const size = await write(handle.createWriteStream(), (bytes) => usage?.limit && usage.used + bytes > usage.limit
+                ? new DiskQuotaError(serverId, usage.used, usage.limit, bytes)
+                : null);
+            await fs.rename(tempPath, fullPath);
+            return size;
+        } catch (error) {
+            await handle.close().catch(() => { });
+            await fs.rm(tempPath, { force: true });
+            throw error;
+        } finally {
+            this.quotas?.invalidate(serverId);
+        }
     }
 }
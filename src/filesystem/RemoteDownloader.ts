@@ -0,0 +1,278 @@
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { createHash, Hash } from 'crypto';
+import { Transform, Writable } from 'stream';
+import { pipeline } from 'stream/promises';
+
+export interface DownloadLimits {
+    maxSize: number;                 // Bytes
+    timeout: number;                 // ms for the whole download
+    allowPrivateNetworks: boolean;   // Allow loopback, private and link-local addresses
+}
+
+export type DownloadErrorCode =
+    | 'INVALID_URL'
+    | 'BLOCKED_ADDRESS'
+    | 'HTTP_ERROR'
+    | 'TOO_MANY_REDIRECTS'
+    | 'TOO_LARGE'
+    | 'TIMEOUT'
+    | 'CHECKSUM_MISMATCH'
+    | 'CANCELLED';
+
+export class DownloadError extends Error {
+    code: DownloadErrorCode;
+
+    constructor(code: DownloadErrorCode, message: string) {
+        super(message);
+        this.name = 'DownloadError';
+        this.code = code;
+    }
+}
+
+export interface DownloadProgress {
+    bytes: number;
+    total?: number;          // From Content-Length, when the server sends it
+    percent?: number;
+}
+
+export interface DownloadRequest {
+    url: string;
+    sha1?: string;           // Expected hex digests, checked once the body is complete
+    sha256?: string;
+    signal?: AbortSignal;
+    onProgress?: (progress: DownloadProgress) => void;
+    // Called with the bytes received so far; returns an error to stop (disk quota)
+    checkQuota?: (bytes: number) => Error | null;
+}
+
+const MAX_REDIRECTS = 5;
+const IDLE_TIMEOUT_MS = 30 * 1000;
+const PROGRESS_INTERVAL_MS = 500;
+
+// Addresses a download may never reach unless private networks are allowed
+const BLOCKED_RANGES: Array<[string, number, 'ipv4' | 'ipv6']> = [
+    ['0.0.0.0', 8, 'ipv4'],          // "This" network
+    ['10.0.0.0', 8, 'ipv4'],
+    ['100.64.0.0', 10, 'ipv4'],      // Carrier-grade NAT
+    ['127.0.0.0', 8, 'ipv4'],
+    ['169.254.0.0', 16, 'ipv4'],     // Link-local, cloud metadata services
+    ['172.16.0.0', 12, 'ipv4'],
+    ['192.0.0.0', 24, 'ipv4'],
+    ['192.168.0.0', 16, 'ipv4'],
+    ['198.18.0.0', 15, 'ipv4'],      // Benchmarking
+    ['224.0.0.0', 4, 'ipv4'],        // Multicast
+    ['240.0.0.0', 4, 'ipv4'],        // Reserved and broadcast
+    ['::', 128, 'ipv6'],
+    ['::1', 128, 'ipv6'],
+    ['64:ff9b::', 96, 'ipv6'],       // NAT64, reaches IPv4 addresses
+    ['fc00::', 7, 'ipv6'],           // Unique local
+    ['fe80::', 10, 'ipv6'],          // Link-local
+    ['ff00::', 8, 'ipv6'],           // Multicast
+];
+
+/**
+ * Streams a file from an HTTP(S) URL the panel gave us. Host names are
+ * checked after DNS resolution and the checked address is the one connected
+ * to, so neither a redirect nor a DNS answer can point a download at the
+ * node itself or its private network.
+ */
+export class RemoteDownloader {
+    private limits: DownloadLimits;
+    private blocked = new net.BlockList();
+
+    constructor(limits: DownloadLimits) {
+        this.limits = limits;
+        for (const [address, prefix, type] of BLOCKED_RANGES) {
+            this.blocked.addSubnet(address, prefix, type);
+        }
+    }
+
+    // Writes the body to output; returns the number of bytes
+    async fetch(request: DownloadRequest, output: Writable): Promise<number> {
+        const controller = new AbortController();
+        const abort = () => controller.abort(request.signal?.reason);
+        request.signal?.addEventListener('abort', abort);
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, this.limits.timeout);
+
+        try {
+            const response = await this.open(request.url, controller.signal);
+            return await this.receive(response, request, output, controller.signal);
+        } catch (error) {
+            if (timedOut) {
+                throw new DownloadError('TIMEOUT', `Download did not finish within ${Math.round(this.limits.timeout / 1000)} seconds`);
+            }
+            if (request.signal?.aborted) {
+                throw new DownloadError('CANCELLED', 'Download was cancelled');
+            }
+            throw error;
+        } finally {
+            clearTimeout(timer);
+            request.signal?.removeEventListener('abort', abort);
+        }
+    }
+
+    private async open(url: string, signal: AbortSignal): Promise<http.IncomingMessage> {
+        let current = this.parseUrl(url);
+
+        for (let redirects = 0; ; redirects++) {
+            const response = await this.get(current, signal);
+            const status = response.statusCode || 0;
+
+            if ([301, 302, 303, 307, 308].includes(status) && response.headers.location) {
+                response.destroy();
+                if (redirects >= MAX_REDIRECTS) {
+                    throw new DownloadError('TOO_MANY_REDIRECTS', `More than ${MAX_REDIRECTS} redirects`);
+                }
+                // Every hop goes through the same checks as the first URL
+                current = this.parseUrl(new URL(response.headers.location, current).toString());
+                continue;
+            }
+            if (status !== 200) {
+                response.destroy();
+                throw new DownloadError('HTTP_ERROR', `Server answered HTTP ${status}`);
+            }
+            return response;
+        }
+    }
+
+    private get(url: URL, signal: AbortSignal): Promise<http.IncomingMessage> {
+        // IP literals never go through lookup, so they are checked here
+        const host = url.hostname.replace(/^\[|\]$/g, '');
+        if (net.isIP(host) && this.isBlocked(host)) {
+            return Promise.reject(new DownloadError('BLOCKED_ADDRESS', `${host} is a private or local address`));
+        }
+
+        return new Promise((resolve, reject) => {
+            const client = url.protocol === 'https:' ? https : http;
+            const req = client.get(url, {
+                signal,
+                lookup: this.lookup,
+                timeout: IDLE_TIMEOUT_MS,
+                headers: { 'User-Agent': 'hyprdash-daemon' },
+            }, resolve);
+            req.on('timeout', () => {
+                req.destroy(new DownloadError('TIMEOUT', `No response from ${url.host} for ${IDLE_TIMEOUT_MS / 1000} seconds`));
+            });
+            req.on('error', reject);
+        });
+    }
+
+    private async receive(
+        response: http.IncomingMessage,
+        request: DownloadRequest,
+        output: Writable,
+        signal: AbortSignal
+    ): Promise<number> {
+        const { maxSize } = this.limits;
+        const length = Number(response.headers['content-length']);
+        const total = Number.isFinite(length) && length > 0 ? length : undefined;
+        if (total && total > maxSize) {
+            response.destroy();
+            throw new DownloadError('TOO_LARGE', `File is ${total} bytes, downloads are limited to ${maxSize}`);
+        }
+        const overQuota = total ? request.checkQuota?.(total) : null;
+        if (overQuota) {
+            response.destroy();
+            throw overQuota;
+        }
+
+        const hashes: Array<[string, string, Hash]> = [];
+        if (request.sha1) {
+            hashes.push(['SHA-1', request.sha1.toLowerCase(), createHash('sha1')]);
+        }
+        if (request.sha256) {
+            hashes.push(['SHA-256', request.sha256.toLowerCase(), createHash('sha256')]);
+        }
+
+        let bytes = 0;
+        let reportedAt = 0;
+        const counter = new Transform({
+            transform: (chunk: Buffer, _encoding, callback) => {
+                bytes += chunk.length;
+                if (bytes > maxSize) {
+                    callback(new DownloadError('TOO_LARGE', `Download went over the ${maxSize} byte limit`));
+                    return;
+                }
+                const quotaError = request.checkQuota?.(bytes);
+                if (quotaError) {
+                    callback(quotaError);
+                    return;
+                }
+                for (const [, , hash] of hashes) {
+                    hash.update(chunk);
+                }
+                if (request.onProgress && Date.now() - reportedAt >= PROGRESS_INTERVAL_MS) {
+                    reportedAt = Date.now();
+                    request.onProgress({ bytes, total, percent: total ? Math.floor((bytes / total) * 100) : undefined });
+                }
+                callback(null, chunk);
+            },
+        });
+
+        // Idle connections are caught by the request timeout, stalls mid-body here
+        response.setTimeout(IDLE_TIMEOUT_MS, () => {
+            response.destroy(new DownloadError('TIMEOUT', `Download stalled for ${IDLE_TIMEOUT_MS / 1000} seconds`));
+        });
+        await pipeline(response, counter, output, { signal });
+
+        for (const [name, expected, hash] of hashes) {
+            if (hash.digest('hex') !== expected) {
+                throw new DownloadError('CHECKSUM_MISMATCH', `${name} checksum does not match`);
+            }
+        }
+        request.onProgress?.({ bytes, total: bytes, percent: 100 });
+        return bytes;
+    }
+
+    private parseUrl(url: string): URL {
+        let parsed: URL;
+        try {
+            parsed = new URL(url);
+        } catch {
+            throw new DownloadError('INVALID_URL', 'Invalid download URL');
+        }
+        if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+            throw new DownloadError('INVALID_URL', 'Only http and https downloads are supported');
+        }
+        return parsed;
+    }
+
+    // dns.lookup with every address checked; the connection only ever sees allowed ones
+    private lookup = (
+        hostname: string,
+        options: dns.LookupOptions,
+        callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+    ): void => {
+        dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+            if (error) {
+                callback(error, []);
+                return;
+            }
+            const allowed = addresses.filter(entry => !this.isBlocked(entry.address));
+            if (allowed.length === 0) {
+                callback(new DownloadError('BLOCKED_ADDRESS', `${hostname} resolves to a private or local address`), []);
+                return;
+            }
+            if (options.all) {
+                callback(null, allowed);
+            } else {
+                callback(null, allowed[0].address, allowed[0].family);
+            }
+        });
+    };
+
+    private isBlocked(address: string): boolean {
+        if (this.limits.allowPrivateNetworks) {
+            return false;
+        }
+        // BlockList also matches IPv4-mapped IPv6 (::ffff:7f00:1) against the IPv4 ranges
+        return this.blocked.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4');
+    }
+}
@@ -0,0 +1,252 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { finished, pipeline } from 'stream/promises';
+import { FileManager } from './FileManager.js';
+import { DiskQuotaManager } from './DiskQuotaManager.js';
+
+export interface UploadOptions {
+    maxChunkSize: number;    // Bytes accepted in one chunk
+    expiry: number;          // ms an upload may sit idle before it's removed
+}
+
+export type UploadErrorCode = 'NOT_FOUND' | 'OFFSET_MISMATCH' | 'CHUNK_TOO_LARGE' | 'SIZE_EXCEEDED' | 'INCOMPLETE' | 'CHECKSUM_MISMATCH';
+
+export class UploadError extends Error {
+    code: UploadErrorCode;
+    offset?: number;         // Where the upload stands, so the client knows where to continue
+
+    constructor(code: UploadErrorCode, message: string, offset?: number) {
+        super(message);
+        this.name = 'UploadError';
+        this.code = code;
+        this.offset = offset;
+    }
+}
+
+export interface UploadSession {
+    id: string;
+    serverId: string;
+    path: string;            // Destination, relative to the server directory
+    tempPath: string;        // Next to the destination so the final rename is atomic
+    size: number;            // Declared by the client at init
+    offset: number;          // Bytes written and acknowledged
+    createdAt: string;
+    updatedAt: number;
+}
+
+export type UploadStatus = Pick<UploadSession, 'id' | 'path' | 'size' | 'offset'>;
+
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+/**
+ * Receives files from the panel in ordered chunks. Every chunk names the
+ * offset it starts at and is only accepted at the current end of the upload,
+ * so a client that lost its connection asks for the status and carries on
+ * from the acknowledged offset. Finished uploads are checked against the
+ * client's SHA-256 before they replace the destination.
+ */
+export class UploadManager {
+    private fileManager: FileManager;
+    private quotas?: DiskQuotaManager;
+    private storePath: string;
+    private options: UploadOptions;
+    private sessions: Map<string, UploadSession> = new Map();
+    // Chunks of one upload are written one after the other
+    private queues: Map<string, Promise<unknown>> = new Map();
+    private timer?: NodeJS.Timeout;
+
+    constructor(fileManager: FileManager, quotas: DiskQuotaManager | undefined, stateDirectory: string, options: UploadOptions) {
+        this.fileManager = fileManager;
+        this.quotas = quotas;
+        this.storePath = path.join(stateDirectory, 'uploads.json');
+        this.options = options;
+    }
+
+    async load(): Promise<void> {
+        let stored: UploadSession[] = [];
+        try {
+            stored = JSON.parse(await fs.readFile(this.storePath, 'utf-8'));
+        } catch {
+            // No uploads in progress
+        }
+
+        for (const session of stored) {
+            // Offsets aren't saved for every chunk; after a restart the temp file tells how far the upload got.
+            // Clients get the full expiry again to reconnect
+            try {
+                const stats = await this.fileManager.getFileStats(session.serverId, session.tempPath);
+                this.sessions.set(session.id, { ...session, offset: Math.min(stats.size, session.size), updatedAt: Date.now() });
+            } catch {
+                // Temp file is gone
+            }
+        }
+        if (this.sessions.size !== stored.length) {
+            await this.persist();
+        }
+
+        this.timer = setInterval(() => {
+            this.removeExpired().catch((error) => console.error('[Upload] Cleanup failed:', error));
+        }, SWEEP_INTERVAL_MS);
+    }
+
+    stop(): void {
+        if (this.timer) {
+            clearInterval(this.timer);
+            this.timer = undefined;
+        }
+    }
+
+    async init(serverId: string, filePath: string, size: number): Promise<UploadStatus> {
+        if (!Number.isSafeInteger(size) || size < 0) {
+            throw new Error('Upload size must be a whole number of bytes');
+        }
+        const existing = await this.fileManager.getFileStats(serverId, filePath).catch(() => null);
+        if (existing?.isDirectory) {
+            throw new Error(`${filePath} is a directory`);
+        }
+        await this.quotas?.assertWritable(serverId, size);
+
+        const id = randomUUID();
+        const session: UploadSession = {
+            id,
+            serverId,
+            path: filePath,
+            tempPath: path.posix.join(path.posix.dirname(filePath), `.${path.posix.basename(filePath)}.${id}.upload`),
+            size,
+            offset: 0,
+            createdAt: new Date().toISOString(),
+            updatedAt: Date.now(),
+        };
+        await this.fileManager.writeFile(serverId, session.tempPath, Buffer.alloc(0));
+
+        this.sessions.set(id, session);
+        await this.persist();
+        return this.toStatus(session);
+    }
+
+    status(serverId: string, id: string): UploadStatus {
+        return this.toStatus(this.getSession(serverId, id));
+    }
+
+    // Returns the new offset
+    writeChunk(serverId: string, id: string, offset: number, data: Buffer): Promise<number> {
+        return this.exclusive(id, async () => {
+            const session = this.getSession(serverId, id);
+            if (offset !== session.offset) {
+                throw new UploadError('OFFSET_MISMATCH', `Expected a chunk at offset ${session.offset}`, session.offset);
+            }
+            if (data.length > this.options.maxChunkSize) {
+                throw new UploadError('CHUNK_TOO_LARGE', `Chunks may be at most ${this.options.maxChunkSize} bytes`, session.offset);
+            }
+            if (session.offset + data.length > session.size) {
+                throw new UploadError('SIZE_EXCEEDED', `Upload is larger than the declared ${session.size} bytes`, session.offset);
+            }
+
+            await this.quotas?.assertWritable(serverId, data.length);
+            try {
+                const stream = await this.fileManager.getWriteStream(serverId, session.tempPath, offset);
+                stream.end(data);
+                await finished(stream);
+            } catch (error) {
+                // Drop whatever part of the chunk made it to disk, or a shorter retry would leave it dangling at the end
+                await this.fileManager.truncateFile(serverId, session.tempPath, session.offset).catch(() => { });
+                throw error;
+            }
+            this.quotas?.recordWrite(serverId, data.length);
+
+            session.offset += data.length;
+            session.updatedAt = Date.now();
+            return session.offset;
+        });
+    }
+
+    // Moves the upload into place once it's complete and matches the checksum
+    finalize(serverId: string, id: string, sha256: string): Promise<{ path: string; size: number }> {
+        return this.exclusive(id, async () => {
+            const session = this.getSession(serverId, id);
+            if (!/^[0-9a-f]{64}$/i.test(sha256 || '')) {
+                throw new Error('A hex SHA-256 checksum of the file is required');
+            }
+            if (session.offset !== session.size) {
+                throw new UploadError('INCOMPLETE', `Upload has ${session.offset} of ${session.size} bytes`, session.offset);
+            }
+
+            const hash = createHash('sha256');
+            await pipeline(await this.fileManager.getReadStream(serverId, session.tempPath), hash);
+            if (hash.digest('hex') !== sha256.toLowerCase()) {
+                await this.remove(session);
+                throw new UploadError('CHECKSUM_MISMATCH', 'Checksum does not match, the upload was discarded');
+            }
+
+            await this.fileManager.renameFile(serverId, session.tempPath, session.path);
+            // A replaced file no longer counts
+            this.quotas?.invalidate(serverId);
+            this.sessions.delete(id);
+            await this.persist();
+            return { path: session.path, size: session.size };
+        });
+    }
+
+    cancel(serverId: string, id: string): Promise<void> {
+        return this.exclusive(id, () => this.remove(this.getSession(serverId, id)));
+    }
+
+    // Uploads of a deleted server; their temp files went with its directory
+    async removeServer(serverId: string): Promise<void> {
+        let removed = false;
+        for (const session of Array.from(this.sessions.values())) {
+            if (session.serverId === serverId) {
+                this.sessions.delete(session.id);
+                removed = true;
+            }
+        }
+        if (removed) {
+            await this.persist();
+        }
+    }
+
+    private async removeExpired(): Promise<void> {
+        const cutoff = Date.now() - this.options.expiry;
+        for (const session of Array.from(this.sessions.values())) {
+            if (session.updatedAt < cutoff && !this.queues.has(session.id)) {
+                console.log(`[Upload] Removing abandoned upload of ${session.path} for ${session.serverId}`);
+                await this.remove(session);
+            }
+        }
+    }
+
+    private async remove(session: UploadSession): Promise<void> {
+        this.sessions.delete(session.id);
+        await this.fileManager.deleteFile(session.serverId, session.tempPath).catch(() => { });
+        await this.persist();
+    }
+
+    private getSession(serverId: string, id: string): UploadSession {
+        const session = this.sessions.get(id);
+        if (!session || session.serverId !== serverId) {
+            throw new UploadError('NOT_FOUND', `Upload ${id} not found`);
+        }
+        return session;
+    }
+
+    private exclusive<T>(id: string, task: () => Promise<T>): Promise<T> {
+        const run = (this.queues.get(id) || Promise.resolve()).then(task);
+        const queued = run.catch(() => { }).then(() => {
+            if (this.queues.get(id) === queued) {
+                this.queues.delete(id);
+            }
+        });
+        this.queues.set(id, queued);
+        return run;
+    }
+
+    private toStatus(session: UploadSession): UploadStatus {
+        return { id: session.id, path: session.path, size: session.size, offset: session.offset };
+    }
+
+    private async persist(): Promise<void> {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        await fs.writeFile(this.storePath, JSON.stringify(Array.from(this.sessions.values()), null, 2), { mode: 0o600 });
+    }
+}
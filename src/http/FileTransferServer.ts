@@ -0,0 +1,278 @@
+import fs from 'fs/promises';
+import http from 'http';
+import https from 'https';
+import path from 'path';
+import { PassThrough } from 'stream';
+import { pipeline } from 'stream/promises';
+import express, { NextFunction, Request, Response } from 'express';
+import busboy from 'busboy';
+import { FileManager } from '../filesystem/FileManager.js';
+import { DiskQuotaError } from '../filesystem/DiskQuotaManager.js';
+import { TransferAction, TransferClaims, TransferTokenError, TransferTokens } from './TransferTokens.js';
+
+export interface FileTransferOptions {
+    port: number;
+    ssl?: {
+        cert: string;        // Paths to PEM files
+        key: string;
+    };
+    corsOrigin?: string;     // The panel's origin, so browsers may upload from it
+    maxUploadSize: number;   // Bytes per uploaded file
+}
+
+// Files accepted in one multipart upload
+const MAX_UPLOAD_FILES = 100;
+
+/**
+ * HTTP(S) endpoint for browser downloads and uploads, so file contents
+ * don't have to travel through the panel's socket as base64. Every request
+ * carries a short-lived token the panel signed for one server and a set of
+ * paths, and paths are resolved through FileManager like everywhere else.
+ *
+ *   GET  /api/files/download?token=...  one file (Range supported), or a zip
+ *                                       of several files or a folder
+ *   POST /api/files/upload?token=...    multipart/form-data, files are saved
+ *                                       in the token's folder
+ */
+export class FileTransferServer {
+    private fileManager: FileManager;
+    private tokens: TransferTokens;
+    private options: FileTransferOptions;
+    private server?: http.Server;
+
+    constructor(fileManager: FileManager, tokens: TransferTokens, options: FileTransferOptions) {
+        this.fileManager = fileManager;
+        this.tokens = tokens;
+        this.options = options;
+    }
+
+    async start(): Promise<void> {
+        const app = this.createApp();
+        const { ssl } = this.options;
+        const server = ssl
+            ? https.createServer({ cert: await fs.readFile(ssl.cert), key: await fs.readFile(ssl.key) }, app)
+            : http.createServer(app);
+
+        await new Promise<void>((resolve, reject) => {
+            server.once('error', reject);
+            server.listen(this.options.port, () => {
+                server.off('error', reject);
+                resolve();
+            });
+        });
+        this.server = server;
+    }
+
+    async stop(): Promise<void> {
+        const server = this.server;
+        this.server = undefined;
+        if (server) {
+            server.closeAllConnections();
+            await new Promise<void>(resolve => server.close(() => resolve()));
+        }
+    }
+
+    private createApp(): express.Express {
+        const app = express();
+        app.disable('x-powered-by');
+        app.use((req, res, next) => this.cors(req, res, next));
+
+        app.get('/api/files/download', (req, res) => {
+            this.download(req, res).catch(error => this.fail(res, error));
+        });
+        app.post('/api/files/upload', (req, res) => {
+            this.upload(req, res).catch(error => this.fail(res, error));
+        });
+        app.use((_req, res) => {
+            res.status(404).json({ error: 'Not found' });
+        });
+        return app;
+    }
+
+    private async download(req: Request, res: Response): Promise<void> {
+        const { serverId, paths } = this.authorize(req, 'download');
+        const stats = paths.length === 1 ? await this.fileManager.getFileStats(serverId, paths[0]) : null;
+
+        if (stats && !stats.isDirectory) {
+            const ranges = stats.size > 0 && req.headers.range ? req.range(stats.size) : undefined;
+            if (ranges === -1) {
+                res.status(416).setHeader('Content-Range', `bytes */${stats.size}`).end();
+                return;
+            }
+            // Several ranges would need a multipart response; sending the whole file is allowed instead
+            const range = Array.isArray(ranges) && ranges.type === 'bytes' && ranges.length === 1 ? ranges[0] : undefined;
+            const start = range?.start ?? 0;
+            const end = range?.end ?? stats.size - 1;
+
+            // Opened before any header goes out, so a refused file still gets a JSON error
+            const file = stats.size > 0 ? await this.fileManager.getReadStream(serverId, paths[0], { start, end }) : null;
+            res.attachment(path.posix.basename(paths[0]));
+            res.setHeader('Accept-Ranges', 'bytes');
+            res.setHeader('Last-Modified', stats.modified.toUTCString());
+            res.setHeader('Content-Length', String(file ? end - start + 1 : 0));
+            if (range) {
+                res.status(206).setHeader('Content-Range', `bytes ${start}-${end}/${stats.size}`);
+            }
+
+            if (!file) {
+                res.end();
+                return;
+            }
+            await pipeline(file, res);
+            return;
+        }
+
+        // Folders and multiple files are zipped on the fly
+        const name = paths.length === 1 && paths[0] !== '/' ? path.posix.basename(paths[0]) : serverId;
+        res.attachment(`${name}.zip`);
+        const controller = new AbortController();
+        res.on('close', () => controller.abort());
+        await this.fileManager.streamArchive(serverId, paths, res, controller.signal);
+    }
+
+    private async upload(req: Request, res: Response): Promise<void> {
+        const { serverId, paths } = this.authorize(req, 'upload');
+        if (!req.is('multipart/form-data')) {
+            res.status(415).json({ error: 'Expected multipart/form-data' });
+            return;
+        }
+
+        // Check the folder before reading the body; a missing one is created by the first file
+        const directory = paths[0];
+        const target = await this.fileManager.getFileStats(serverId, directory).catch((error) => {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return null;
+            }
+            throw error;
+        });
+        if (target && !target.isDirectory) {
+            throw new Error(`${directory} is not a directory`);
+        }
+
+        const saves: Array<Promise<{ path: string; size: number } | null>> = [];
+        const errors: Array<{ file: string; error: string }> = [];
+        // Bodies still being saved; a broken request has to end them or their saves never settle
+        const bodies = new Set<PassThrough>();
+        let failure: unknown;
+
+        const parser = busboy({ headers: req.headers, limits: { files: MAX_UPLOAD_FILES } });
+        parser.on('file', (_field, stream, info) => {
+            // Only a plain file name is used, whatever folders the browser put in front of it
+            const name = path.posix.basename((info.filename || '').replace(/\\/g, '/'));
+            if (!name || name === '.' || name === '..' || name.includes('\0')) {
+                errors.push({ file: info.filename || '(unnamed)', error: 'Invalid file name' });
+                stream.resume();
+                return;
+            }
+
+            // Keep busboy going if a file fails: its stream is drained instead of destroyed
+            const body = new PassThrough();
+            bodies.add(body);
+            // busboy destroys the file stream when the request breaks off; pipe() would leave that error unhandled
+            stream.on('error', error => body.destroy(error));
+            stream.pipe(body);
+            const filePath = path.posix.join(directory, name);
+            saves.push(this.fileManager.saveStream(serverId, filePath, body, this.options.maxUploadSize).finally(() => {
+                bodies.delete(body);
+            }).then(
+                size => ({ path: filePath, size }),
+                (error) => {
+                    stream.unpipe(body);
+                    stream.resume();
+                    failure ??= error;
+                    errors.push({ file: name, error: this.messageFor(error) });
+                    return null;
+                }
+            ));
+        });
+
+        try {
+            // Unlike pipe(), pipeline() passes a client abort on to busboy
+            await pipeline(req, parser);
+        } catch (error) {
+            // Saves fail and remove their temp files before the error is answered
+            for (const body of bodies) {
+                body.destroy(error instanceof Error ? error : new Error('Upload was interrupted'));
+            }
+            await Promise.all(saves);
+            throw error;
+        }
+
+        const files = (await Promise.all(saves)).filter(file => file !== null);
+        if (errors.length === 0) {
+            res.json({ success: true, files });
+            return;
+        }
+        res.status(failure ? this.statusFor(failure) : 400).json({
+            success: false,
+            error: errors.map(e => `${e.file}: ${e.error}`).join('; '),
+            files,
+            errors,
+            ...(failure instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED' }),
+        });
+    }
+
+    // Tokens come in the query for plain links, or as a bearer token from scripts
+    private authorize(req: Request, action: TransferAction): TransferClaims {
+        const header = req.headers.authorization;
+        const token = header?.startsWith('Bearer ') ? header.slice(7) : req.query.token;
+        return this.tokens.verify(typeof token === 'string' ? token : '', action);
+    }
+
+    private cors(req: Request, res: Response, next: NextFunction): void {
+        const origin = req.headers.origin;
+        if (origin && origin === this.options.corsOrigin) {
+            res.setHeader('Access-Control-Allow-Origin', origin);
+            res.setHeader('Vary', 'Origin');
+            res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+            res.setHeader('Access-Control-Allow-Headers', 'Authorization, Range, Content-Type');
+            res.setHeader('Access-Control-Expose-Headers', 'Content-Disposition, Content-Length, Content-Range');
+        }
+        if (req.method === 'OPTIONS') {
+            res.status(204).end();
+            return;
+        }
+        next();
+    }
+
+    private fail(res: Response, error: unknown): void {
+        // Once the body has started there's no way to report an error but to cut the response off
+        if (res.headersSent) {
+            res.destroy();
+            return;
+        }
+        res.status(this.statusFor(error)).json({
+            error: this.messageFor(error),
+            ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
+        });
+    }
+
+    // fs errors name the absolute path on the node, which browsers have no business seeing
+    private messageFor(error: unknown): string {
+        const code = (error as NodeJS.ErrnoException)?.code;
+        if (code === 'ENOENT') {
+            return 'File not found';
+        }
+        if (code === 'ELOOP') {
+            return 'Access denied: symbolic links are not followed';
+        }
+        return error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    private statusFor(error: unknown): number {
+        if (error instanceof TransferTokenError) {
+            return 401;
+        }
+        if (error instanceof DiskQuotaError) {
+            return 507;
+        }
+        const code = (error as NodeJS.ErrnoException)?.code;
+        if (code === 'ENOENT') {
+            return 404;
+        }
+        if (code === 'ELOOP' || (error instanceof Error && error.message.startsWith('Access denied'))) {
+            return 403;
+        }
+        return 400;
+    }
+}
@@ -0,0 +1,76 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+export type TransferAction = 'download' | 'upload';
+
+/**
+ * What a token lets its holder do. The panel issues tokens as
+ * base64url(JSON claims) + "." + base64url(HMAC-SHA256 of the first part),
+ * signed with the node's token.
+ */
+export interface TransferClaims {
+    serverId: string;
+    action: TransferAction;
+    paths: string[];         // download: files and folders; upload: the one target folder
+    exp: number;             // Unix seconds
+}
+
+export class TransferTokenError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TransferTokenError';
+    }
+}
+
+// Tokens are meant for a single click or upload; anything valid longer is refused
+const MAX_LIFETIME_SECONDS = 60 * 60;
+
+export class TransferTokens {
+    private secret: string;
+
+    constructor(secret: string) {
+        this.secret = secret;
+    }
+
+    // Used by the panel; kept here so both sides share one format
+    sign(claims: TransferClaims): string {
+        const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+        return `${payload}.${this.signature(payload)}`;
+    }
+
+    verify(token: string, action: TransferAction): TransferClaims {
+        const [payload, signature, ...rest] = (token || '').split('.');
+        if (!payload || !signature || rest.length > 0) {
+            throw new TransferTokenError('Malformed transfer token');
+        }
+
+        const expected = Buffer.from(this.signature(payload));
+        const given = Buffer.from(signature);
+        if (given.length !== expected.length || !timingSafeEqual(given, expected)) {
+            throw new TransferTokenError('Invalid transfer token');
+        }
+
+        let claims: TransferClaims;
+        try {
+            claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'));
+        } catch {
+            throw new TransferTokenError('Malformed transfer token');
+        }
+
+        const now = Math.floor(Date.now() / 1000);
+        if (typeof claims.exp !== 'number' || claims.exp < now || claims.exp > now + MAX_LIFETIME_SECONDS) {
+            throw new TransferTokenError('Transfer token has expired');
+        }
+        if (claims.action !== action) {
+            throw new TransferTokenError(`Token is not valid for ${action}s`);
+        }
+        if (typeof claims.serverId !== 'string' || !Array.isArray(claims.paths) || claims.paths.length === 0
+            || !claims.paths.every(p => typeof p === 'string')) {
+            throw new TransferTokenError('Malformed transfer token');
+        }
+        return claims;
+    }
+
+    private signature(payload: string): string {
+        return createHmac('sha256', this.secret).update(payload).digest('base64url');
+    }
+}
@@ -2,12 +2,34 @@ import 'dotenv/config';
 import { io, Socket } from 'socket.io-client';
 import fs from 'fs/promises';
 import path from 'path';
-import { ProcessManager } from './process/ProcessManager.js';
+import { CommandError, CrashInfo, OutputStream, ProcessManager, ServerCallbacks } from './process/ProcessManager.js';
+import { CgroupManager } from './process/CgroupManager.js';
+import { Allocation, ServerRuntime } from './process/ServerRuntime.js';
+import { HostRuntime } from './process/HostRuntime.js';
+import { DockerRuntime } from './process/DockerRuntime.js';
+import { DockerClient } from './process/DockerClient.js';
+import { ServerUserManager } from './process/ServerUserManager.js';
+import { MountManager } from './process/MountManager.js';
 import { ResourceMonitor } from './monitor/ResourceMonitor.js';
 import { FileManager } from './filesystem/FileManager.js';
+import { DiskQuotaError, DiskQuotaManager, QuotaViolation } from './filesystem/DiskQuotaManager.js';
+import { ArchiveLimitError } from './filesystem/ArchiveExtractor.js';
+import { ArchiveCancelledError, ArchiveOutputFormat } from './filesystem/ArchiveCreator.js';
+import { UploadError, UploadManager } from './filesystem/UploadManager.js';
+import { DownloadManager } from './filesystem/DownloadManager.js';
+import { FileTransferServer } from './http/FileTransferServer.js';
+import { TransferTokens } from './http/TransferTokens.js';
 import { InstallManager } from './install/InstallManager.js';
 import { BackupManager } from './backup/BackupManager.js';
 import { QueryManager } from './query/QueryManager.js';
+import { RconError } from './rcon/RconClient.js';
+import { PowerAction, Schedule, ScheduleManager } from './schedule/ScheduleManager.js';
+import { ConsoleLogManager } from './console/ConsoleLogManager.js';
+import { CrashReportManager } from './console/CrashReportManager.js';
+import { ConsoleHistory } from './console/ConsoleHistory.js';
+import { StartupTemplate, StartupTemplateError } from './config/StartupTemplate.js';
+import { ServerOperationError, ServerStateMachine } from './process/ServerStateMachine.js';
+import { PreflightChecker, PreflightError } from './process/PreflightChecker.js';
 
 interface DaemonConfig {
     panel_url: string;
@@ -15,15 +37,64 @@ interface DaemonConfig {
     data_directory: string;
     backup_directory: string;
     log_directory: string;
+    state_directory: string;
     port: number;
     ssl: {
         enabled: boolean;
         cert: string;
         key: string;
     };
+    console_log?: {
+        max_size_mb?: number;           // Rotate the active console log at this size
+        rotate_interval_hours?: number; // ...or when it gets this old
+        max_files?: number;             // Rotated logs kept per server
+        max_age_days?: number;          // Rotated logs older than this are deleted
+    };
+    files?: {
+        max_extract_size_mb?: number;   // Archives that unpack to more than this are stopped
+        max_extract_files?: number;     // ...or that hold more entries than this
+        max_upload_chunk_kb?: number;   // Largest chunk accepted by files:upload:chunk
+        upload_expiry_minutes?: number; // Unfinished uploads idle this long are deleted
+    };
+    downloads?: {
+        max_size_mb?: number;           // files:download stops at this size
+        timeout_minutes?: number;       // ...or when it takes longer than this
+        allow_private_networks?: boolean; // Allow URLs on loopback, private and link-local addresses
+    };
+    transfers?: {
+        enabled?: boolean;              // Serve the HTTP file transfer API on `port`
+        max_upload_size_mb?: number;    // Largest file accepted by an HTTP upload
+    };
+    crash_reports?: {
+        console_lines?: number;         // Console lines kept in each crash report
+        max_reports?: number;           // Reports kept per server
+        max_file_size_kb?: number;      // Crash files (crash-reports/, hs_err_pid*.log) are cut off at this size
+    };
+    disk_quota?: {
+        scan_interval_seconds?: number; // How often server directories are measured
+        stop_after_seconds?: number;    // Stop a server this long after it went over its limit (0 = only warn)
+    };
+    // Host directories servers may mount; nothing outside these is ever linked into a server
+    allowed_mounts?: Array<{
+        source: string;
+        read_only?: boolean;            // Always mount read-only, whatever the panel asks for
+    }>;
+    runtime?: 'host' | 'docker';   // Default runtime for servers that don't pick one
+    docker?: {
+        socket?: string;
+        network?: string;
+    };
     system: {
         check_interval: number;
         memory_padding: number;
+        console_buffer_size?: number; // Console lines kept in memory per server for reconnecting clients
+        min_free_disk_mb?: number; // Servers aren't started with less free disk than this
+        cgroup_root?: string;   // Parent cgroup v2 group for server limits
+        isolation?: {
+            enabled?: boolean;  // Run every server as its own unprivileged uid/gid
+            uid_base?: number;  // First uid handed out to servers
+            namespace?: boolean; // Also sandbox host servers with bubblewrap
+        };
     };
 }
 
@@ -31,12 +102,22 @@ class Daemon {
     private config!: DaemonConfig;
     private socket!: Socket;
     private processManager!: ProcessManager;
+    private mountManager!: MountManager;
     private resourceMonitor!: ResourceMonitor;
     private fileManager!: FileManager;
+    private uploadManager!: UploadManager;
+    private downloadManager!: DownloadManager;
+    private fileTransferServer?: FileTransferServer;
+    private diskQuotaManager!: DiskQuotaManager;
     private installManager!: InstallManager;
     private backupManager!: BackupManager;
-    // Console history buffer per server (last 200 lines)
-    private consoleHistory: Map<string, string[]> = new Map();
+    private scheduleManager!: ScheduleManager;
+    private consoleLogManager!: ConsoleLogManager;
+    private crashReportManager!: CrashReportManager;
+    private stateMachine!: ServerStateMachine;
+    private consoleHistory!: ConsoleHistory;
+    private preflightChecker!: PreflightChecker;
+    private compressJobs: Map<string, AbortController> = new Map();
 
     async start() {
         console.log('🚀 Starting Game Panel Daemon...');
@@ -48,31 +129,144 @@ class Daemon {
         await this.ensureDirectories();
 
         // Initialize managers
-        this.processManager = new ProcessManager(this.config.data_directory);
+        this.mountManager = new MountManager(
+            this.config.state_directory,
+            this.config.data_directory,
+            (this.config.allowed_mounts || []).map(mount => ({ source: mount.source, readOnly: mount.read_only }))
+        );
+        await this.mountManager.load();
+        this.processManager = new ProcessManager(
+            this.config.data_directory,
+            this.config.state_directory,
+            await this.createRuntimes(),
+            this.config.runtime || 'host',
+            this.createUserManager(),
+            this.mountManager
+        );
+        this.consoleLogManager = new ConsoleLogManager(this.config.log_directory, {
+            maxSize: (this.config.console_log?.max_size_mb ?? 10) * 1024 * 1024,
+            rotateInterval: (this.config.console_log?.rotate_interval_hours ?? 24) * 60 * 60 * 1000,
+            maxFiles: this.config.console_log?.max_files ?? 10,
+            maxAge: (this.config.console_log?.max_age_days ?? 14) * 24 * 60 * 60 * 1000,
+        });
+        this.crashReportManager = new CrashReportManager(this.config.log_directory, {
+            consoleLines: this.config.crash_reports?.console_lines ?? 200,
+            maxReports: this.config.crash_reports?.max_reports ?? 20,
+            maxFileSize: (this.config.crash_reports?.max_file_size_kb ?? 512) * 1024,
+        });
+        this.stateMachine = new ServerStateMachine(
+            (serverId) => this.processManager.getServerStatus(serverId),
+            (serverId, status) => this.socket.emit('server:status', { serverId, status })
+        );
+        this.consoleHistory = new ConsoleHistory(this.config.system.console_buffer_size || 200);
+        this.preflightChecker = new PreflightChecker({
+            minFreeDisk: (this.config.system.min_free_disk_mb ?? 512) * 1024 * 1024,
+        });
         this.resourceMonitor = new ResourceMonitor();
-        this.fileManager = new FileManager(this.config.data_directory);
+        this.diskQuotaManager = new DiskQuotaManager(
+            this.config.data_directory,
+            this.config.state_directory,
+            {
+                scanInterval: (this.config.disk_quota?.scan_interval_seconds ?? 60) * 1000,
+                stopAfter: (this.config.disk_quota?.stop_after_seconds ?? 300) * 1000,
+            },
+            (serverId) => this.processManager.isServerRunning(serverId),
+            (violation) => this.handleQuotaViolation(violation)
+        );
+        this.fileManager = new FileManager(this.config.data_directory, this.diskQuotaManager, this.mountManager, {
+            maxSize: (this.config.files?.max_extract_size_mb ?? 10240) * 1024 * 1024,
+            maxFiles: this.config.files?.max_extract_files ?? 100000,
+        }, {
+            maxSize: (this.config.downloads?.max_size_mb ?? 2048) * 1024 * 1024,
+            timeout: (this.config.downloads?.timeout_minutes ?? 60) * 60 * 1000,
+            allowPrivateNetworks: this.config.downloads?.allow_private_networks ?? false,
+        });
+        this.downloadManager = new DownloadManager(this.fileManager, {
+            onProgress: (job) => this.socket.emit('files:download:progress', job),
+            onFinish: (job) => {
+                if (job.status === 'completed') {
+                    console.log(`⬇️ Downloaded ${job.path} for ${job.serverId} (${job.bytes} bytes)`);
+                } else {
+                    console.log(`⬇️ Download of ${job.path} for ${job.serverId} ${job.status}: ${job.error}`);
+                }
+                this.socket.emit('files:download:finished', job);
+            },
+        });
+        this.uploadManager = new UploadManager(this.fileManager, this.diskQuotaManager, this.config.state_directory, {
+            maxChunkSize: (this.config.files?.max_upload_chunk_kb ?? 4096) * 1024,
+            expiry: (this.config.files?.upload_expiry_minutes ?? 60) * 60 * 1000,
+        });
         this.installManager = new InstallManager(this.config.data_directory);
         this.backupManager = new BackupManager(
             this.config.data_directory,
             this.config.backup_directory,
             this.fileManager
         );
+        this.scheduleManager = new ScheduleManager(
+            this.config.state_directory,
+            this.processManager,
+            this.backupManager,
+            (serverId, action) => this.handleScheduledPowerAction(serverId, action),
+            (result) => this.socket.emit('schedule:result', result)
+        );
 
         // Connect to panel
         await this.connectToPanel();
 
+        // Pick up servers that kept running while the daemon was down
+        const reattached = await this.processManager.reattachServers((serverId) => this.createServerCallbacks(serverId));
+        if (reattached.length > 0) {
+            console.log(`🔗 Reattached to ${reattached.length} running server(s)`);
+        }
+        this.reportServerStatuses();
+
+        // Schedules run on the daemon so they keep firing while the panel is away
+        await this.scheduleManager.load();
+        await this.diskQuotaManager.load();
+        await this.uploadManager.load();
+        await this.startFileTransferServer();
+
         // Start system monitoring
         this.startSystemMonitoring();
 
         console.log('✅ Daemon started successfully');
     }
 
+    // Direct browser downloads and uploads, authorized by tokens the panel signs with the node token
+    private async startFileTransferServer() {
+        if (this.config.transfers?.enabled === false) {
+            return;
+        }
+        let corsOrigin: string | undefined;
+        try {
+            corsOrigin = new URL(this.config.panel_url).origin;
+        } catch {
+            // Without a panel URL only same-origin and non-browser clients can use the API
+        }
+
+        const port = this.config.port || Number(process.env.PORT) || 8080;
+        this.fileTransferServer = new FileTransferServer(this.fileManager, new TransferTokens(this.config.token), {
+            port,
+            ssl: this.config.ssl?.enabled ? { cert: this.config.ssl.cert, key: this.config.ssl.key } : undefined,
+            corsOrigin,
+            maxUploadSize: (this.config.transfers?.max_upload_size_mb ?? 2048) * 1024 * 1024,
+        });
+        try {
+            await this.fileTransferServer.start();
+            console.log(`🌐 File transfer API listening on port ${port}${this.config.ssl?.enabled ? ' (HTTPS)' : ''}`);
+        } catch (error) {
+            this.fileTransferServer = undefined;
+            console.error('Failed to start the file transfer API:', error instanceof Error ? error.message : error);
+        }
+    }
+
     private async loadConfig() {
         const configPath = process.env.CONFIG_PATH || './config.json';
 
         try {
             const configData = await fs.readFile(configPath, 'utf-8');
             this.config = JSON.parse(configData);
+            this.config.state_directory = this.config.state_directory || './state';
             console.log(`📋 Loaded configuration from ${configPath}`);
         } catch (error) {
             console.error('Failed to load config.json. Copy config.example.json to config.json');
@@ -85,6 +279,7 @@ class Daemon {
             this.config.data_directory,
             this.config.backup_directory,
             this.config.log_directory,
+            this.config.state_directory,
         ];
 
         for (const dir of dirs) {
@@ -92,6 +287,52 @@ class Daemon {
         }
     }
 
+    private async createRuntimes(): Promise<ServerRuntime[]> {
+        const runtimes: ServerRuntime[] = [
+            new HostRuntime(this.config.state_directory, await this.createCgroupManager(), {
+                namespace: this.config.system.isolation?.namespace,
+            }),
+        ];
+
+        const dockerSocket = this.config.docker?.socket || process.env.DOCKER_SOCKET;
+        if (dockerSocket) {
+            console.log(`🐳 Docker runtime enabled (${dockerSocket})`);
+            runtimes.push(new DockerRuntime(new DockerClient(dockerSocket), {
+                network: this.config.docker?.network,
+                memoryPadding: this.config.system.memory_padding || 0,
+            }));
+        }
+
+        return runtimes;
+    }
+
+    private createUserManager(): ServerUserManager | undefined {
+        const isolation = this.config.system.isolation;
+        if (!isolation?.enabled) {
+            return undefined;
+        }
+
+        if (process.getuid?.() !== 0) {
+            console.warn('⚠️ Server isolation needs the daemon to run as root, servers will run as the daemon user');
+            return undefined;
+        }
+
+        console.log(`👤 Running servers as dedicated users from uid ${isolation.uid_base || 20000}`);
+        return new ServerUserManager(this.config.state_directory, isolation.uid_base);
+    }
+
+    private async createCgroupManager(): Promise<CgroupManager | undefined> {
+        const root = this.config.system.cgroup_root || '/sys/fs/cgroup/hyprdash';
+
+        if (!await CgroupManager.isSupported(root)) {
+            console.warn('⚠️ cgroup v2 is not available or not writable, memory and CPU limits will not be enforced');
+            return undefined;
+        }
+
+        console.log(`🧱 Enforcing resource limits with cgroups under ${root}`);
+        return new CgroupManager(root, this.config.system.memory_padding || 0);
+    }
+
     private async connectToPanel() {
         return new Promise<void>((resolve, reject) => {
             console.log(`🔌 Connecting to panel at ${this.config.panel_url}...`);
@@ -107,6 +348,7 @@ class Daemon {
 
             this.socket.on('connect', () => {
                 console.log('✅ Connected to panel');
+                this.reportServerStatuses();
                 resolve();
             });
 
@@ -136,6 +378,9 @@ class Daemon {
             console.log(`📦 Creating server ${data.serverId}`);
             try {
                 await this.processManager.createServerDirectory(data.serverId);
+                if (data.config?.disk !== undefined) {
+                    await this.diskQuotaManager.setLimit(data.serverId, data.config.disk);
+                }
                 this.socket.emit('server:status', { serverId: data.serverId, status: 'OFFLINE' });
             } catch (error) {
                 console.error(`Failed to create server ${data.serverId}:`, error);
@@ -161,16 +406,20 @@ class Daemon {
             });
 
             try {
-                await this.installManager.installServer(
-                    {
-                        serverId: data.serverId,
-                        egg: data.egg,
-                        variables: data.variables,
-                    },
-                    (serverId, progress, message) => {
-                        this.socket.emit('server:install:progress', { serverId, progress, message });
-                    }
-                );
+                await this.stateMachine.run(data.serverId, 'install', () => {
+                    // A crashed server must not be restarted into a half-installed directory
+                    this.processManager.cancelPendingRestart(data.serverId);
+                    return this.installManager.installServer(
+                        {
+                            serverId: data.serverId,
+                            egg: data.egg,
+                            variables: data.variables,
+                        },
+                        (serverId, progress, message) => {
+                            this.socket.emit('server:install:progress', { serverId, progress, message });
+                        }
+                    );
+                });
 
                 this.socket.emit('server:install:complete', { serverId: data.serverId });
             } catch (error) {
@@ -189,40 +438,87 @@ class Daemon {
             try {
                 switch (data.action) {
                     case 'start':
-                        await this.handleServerStart(data.serverId, data.config);
+                        await this.stateMachine.run(data.serverId, 'start', () => this.handleServerStart(data.serverId, data.config));
                         break;
                     case 'stop':
-                        await this.processManager.stopServer(data.serverId);
+                        await this.stateMachine.run(data.serverId, 'stop', () => this.processManager.stopServer(data.serverId));
                         break;
                     case 'restart':
-                        await this.processManager.stopServer(data.serverId);
-                        setTimeout(() => this.handleServerStart(data.serverId, data.config), 2000);
+                        await this.stateMachine.run(data.serverId, 'restart', async () => {
+                            await this.processManager.stopServer(data.serverId);
+                            await this.handleServerStart(data.serverId, data.config);
+                        });
                         break;
                     case 'kill':
-                        await this.processManager.killServer(data.serverId);
+                        await this.stateMachine.run(data.serverId, 'kill', () => this.processManager.killServer(data.serverId));
                         break;
+                    default:
+                        throw new Error(`Unknown power action "${data.action}"`);
                 }
             } catch (error) {
                 console.error(`Power action failed for ${data.serverId}:`, error);
                 this.socket.emit('server:error', {
                     serverId: data.serverId,
                     error: error instanceof Error ? error.message : 'Unknown error',
+                    // Lets the panel point at every placeholder and variable that needs fixing
+                    ...(error instanceof StartupTemplateError && {
+                        unresolved: error.unresolved,
+                        invalid: error.invalid,
+                    }),
+                    ...(error instanceof ServerOperationError && {
+                        operation: error.operation,
+                        state: error.state,
+                    }),
                 });
             }
         });
 
         // Console commands
-        this.socket.on('server:command', (data: { serverId: string; command: string }) => {
+        this.socket.on('server:command', async (data: { serverId: string; command: string; requestId?: string }) => {
             console.log(`💬 Command for ${data.serverId}: ${data.command}`);
-            this.processManager.sendCommand(data.serverId, data.command);
+            try {
+                const result = await this.processManager.sendCommand(data.serverId, data.command);
+                this.socket.emit('server:command:response', {
+                    requestId: data.requestId,
+                    serverId: data.serverId,
+                    command: data.command,
+                    ...result,
+                });
+            } catch (error) {
+                console.error(`Failed to send command to ${data.serverId}:`, error instanceof Error ? error.message : error);
+                this.socket.emit('server:command:error', {
+                    requestId: data.requestId,
+                    serverId: data.serverId,
+                    command: data.command,
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    ...((error instanceof CommandError || error instanceof RconError) && { code: error.code }),
+                });
+            }
+        });
+
+        // Disk limit changed in the panel; applies to running servers right away
+        this.socket.on('server:disk:limit', async (data: { serverId: string; limit: number }) => {
+            try {
+                await this.diskQuotaManager.setLimit(data.serverId, data.limit);
+            } catch (error) {
+                console.error(`Failed to set disk limit for ${data.serverId}:`, error);
+            }
         });
 
         // Server deletion
         this.socket.on('server:delete', async (data: { serverId: string }) => {
             console.log(`🗑️ Deleting server ${data.serverId}`);
             try {
-                await this.processManager.killServer(data.serverId);
-                await this.processManager.deleteServerDirectory(data.serverId);
+                await this.stateMachine.run(data.serverId, 'delete', async () => {
+                    this.downloadManager.cancelServer(data.serverId);
+                    await this.processManager.killServer(data.serverId);
+                    await this.processManager.deleteServerDirectory(data.serverId);
+                });
+                await this.scheduleManager.removeServer(data.serverId);
+                await this.uploadManager.removeServer(data.serverId);
+                await this.diskQuotaManager.removeServer(data.serverId);
+                await this.consoleLogManager.removeServer(data.serverId);
+                this.consoleHistory.remove(data.serverId);
             } catch (error) {
                 console.error(`Failed to delete server ${data.serverId}:`, error);
             }
@@ -271,8 +567,70 @@ class Daemon {
                 console.error(`[Files] Write error:`, error);
                 this.socket.emit('files:error', {
                     requestId: data.requestId,
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
+                });
+            }
+        });
+
+        // Large files come in ordered chunks; an interrupted upload continues from files:upload:status
+        this.socket.on('files:upload:init', async (data: { serverId: string; path: string; size: number; requestId: string }) => {
+            try {
+                const upload = await this.uploadManager.init(data.serverId, data.path, data.size);
+                console.log(`[Files] Receiving upload ${upload.id}: ${data.path} (${data.size} bytes)`);
+                this.socket.emit('files:upload:init:response', {
+                    requestId: data.requestId,
+                    ...upload,
+                    maxChunkSize: (this.config.files?.max_upload_chunk_kb ?? 4096) * 1024,
                 });
+            } catch (error) {
+                this.emitUploadError(data.requestId, error);
+            }
+        });
+
+        this.socket.on('files:upload:chunk', async (data: {
+            serverId: string;
+            uploadId: string;
+            offset: number;
+            data: Buffer | string;      // Binary attachment, or base64
+            requestId: string;
+        }) => {
+            try {
+                const chunk = Buffer.isBuffer(data.data) ? data.data : Buffer.from(data.data, 'base64');
+                const offset = await this.uploadManager.writeChunk(data.serverId, data.uploadId, data.offset, chunk);
+                this.socket.emit('files:upload:chunk:response', { requestId: data.requestId, uploadId: data.uploadId, offset });
+            } catch (error) {
+                this.emitUploadError(data.requestId, error);
+            }
+        });
+
+        this.socket.on('files:upload:status', (data: { serverId: string; uploadId: string; requestId: string }) => {
+            try {
+                this.socket.emit('files:upload:status:response', {
+                    requestId: data.requestId,
+                    ...this.uploadManager.status(data.serverId, data.uploadId),
+                });
+            } catch (error) {
+                this.emitUploadError(data.requestId, error);
+            }
+        });
+
+        this.socket.on('files:upload:finalize', async (data: { serverId: string; uploadId: string; sha256: string; requestId: string }) => {
+            try {
+                const result = await this.uploadManager.finalize(data.serverId, data.uploadId, data.sha256);
+                console.log(`[Files] Upload ${data.uploadId} complete: ${result.path}`);
+                this.socket.emit('files:upload:finalize:response', { requestId: data.requestId, success: true, ...result });
+            } catch (error) {
+                this.emitUploadError(data.requestId, error);
+            }
+        });
+
+        this.socket.on('files:upload:cancel', async (data: { serverId: string; uploadId: string; requestId: string }) => {
+            try {
+                await this.uploadManager.cancel(data.serverId, data.uploadId);
+                this.socket.emit('files:upload:cancel:response', { requestId: data.requestId, success: true });
+            } catch (error) {
+                this.emitUploadError(data.requestId, error);
             }
         });
 
@@ -283,7 +641,8 @@ class Daemon {
             } catch (error) {
                 this.socket.emit('files:error', {
                     requestId: data.requestId,
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
                 });
             }
         });
@@ -307,7 +666,8 @@ class Daemon {
             } catch (error) {
                 this.socket.emit('files:error', {
                     requestId: data.requestId,
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
                 });
             }
         });
@@ -326,41 +686,96 @@ class Daemon {
             }
         });
 
-        this.socket.on('files:compress', async (data: { serverId: string; paths: string[]; destination: string; requestId: string }) => {
+        this.socket.on('files:compress', async (data: {
+            serverId: string;
+            paths: string[];
+            destination: string;
+            format?: ArchiveOutputFormat;
+            level?: number;
+            requestId: string;
+        }) => {
+            const controller = new AbortController();
+            this.compressJobs.set(data.requestId, controller);
             try {
-                await this.fileManager.createArchive(data.serverId, data.paths, data.destination);
-                this.socket.emit('files:compress:response', { requestId: data.requestId, success: true });
+                const result = await this.fileManager.createArchive(data.serverId, data.paths, data.destination, {
+                    format: data.format || 'zip',
+                    level: data.level,
+                    signal: controller.signal,
+                    onProgress: (progress) => {
+                        this.socket.emit('files:compress:progress', {
+                            requestId: data.requestId,
+                            serverId: data.serverId,
+                            ...progress,
+                        });
+                    },
+                });
+                this.socket.emit('files:compress:response', { requestId: data.requestId, success: true, ...result });
             } catch (error) {
                 this.socket.emit('files:error', {
                     requestId: data.requestId,
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
+                    ...(error instanceof ArchiveCancelledError && { code: 'CANCELLED' }),
                 });
+            } finally {
+                this.compressJobs.delete(data.requestId);
             }
         });
 
+        this.socket.on('files:compress:cancel', (data: { requestId: string }) => {
+            this.compressJobs.get(data.requestId)?.abort();
+        });
+
         this.socket.on('files:decompress', async (data: { serverId: string; file: string; destination: string; requestId: string }) => {
             try {
-                await this.fileManager.extractArchive(data.serverId, data.file, data.destination);
-                this.socket.emit('files:decompress:response', { requestId: data.requestId, success: true });
+                const result = await this.fileManager.extractArchive(data.serverId, data.file, data.destination, (progress) => {
+                    this.socket.emit('files:decompress:progress', {
+                        requestId: data.requestId,
+                        serverId: data.serverId,
+                        file: data.file,
+                        ...progress,
+                    });
+                });
+                if (result.rejected.length > 0) {
+                    console.log(`📦 Skipped ${result.rejected.length} unsafe entries in ${data.file} for ${data.serverId}`);
+                }
+                this.socket.emit('files:decompress:response', { requestId: data.requestId, success: true, ...result });
             } catch (error) {
                 this.socket.emit('files:error', {
                     requestId: data.requestId,
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
+                    ...(error instanceof ArchiveLimitError && { code: 'ARCHIVE_LIMIT_EXCEEDED', exceeded: error.limit }),
                 });
             }
         });
 
-        this.socket.on('files:download', async (data: { serverId: string; url: string; path: string; requestId: string }) => {
+        // Downloads run in the background; the response carries the job, files:download:finished the result
+        this.socket.on('files:download', (data: {
+            serverId: string;
+            url: string;
+            path: string;
+            sha1?: string;
+            sha256?: string;
+            requestId: string;
+        }) => {
             console.log(`⬇️ Downloading file to ${data.path}`);
-            try {
-                await this.fileManager.downloadFile(data.serverId, data.url, data.path);
-                this.socket.emit('files:download:response', { requestId: data.requestId, success: true });
-            } catch (error) {
-                console.error(`Download failed:`, error);
-                this.socket.emit('files:error', {
-                    requestId: data.requestId,
-                    error: error instanceof Error ? error.message : 'Download failed'
-                });
+            const job = this.downloadManager.start(data.serverId, data.url, data.path, { sha1: data.sha1, sha256: data.sha256 });
+            this.socket.emit('files:download:response', { requestId: data.requestId, success: true, job });
+        });
+
+        this.socket.on('files:download:list', (data: { serverId?: string; requestId: string }) => {
+            this.socket.emit('files:download:list:response', {
+                requestId: data.requestId,
+                downloads: this.downloadManager.list(data.serverId),
+            });
+        });
+
+        this.socket.on('files:download:cancel', (data: { serverId: string; jobId: string; requestId: string }) => {
+            if (this.downloadManager.cancel(data.serverId, data.jobId)) {
+                this.socket.emit('files:download:cancel:response', { requestId: data.requestId, success: true });
+            } else {
+                this.socket.emit('files:error', { requestId: data.requestId, error: `No running download ${data.jobId}` });
             }
         });
 
@@ -409,12 +824,15 @@ class Daemon {
         }) => {
             console.log(`📦 Restoring backup for server ${data.serverId}`);
             try {
-                await this.backupManager.restoreBackup(
-                    data.serverId,
-                    data.storagePath,
-                    !!data.isS3,
-                    data.s3
-                );
+                await this.stateMachine.run(data.serverId, 'restore', () => {
+                    this.processManager.cancelPendingRestart(data.serverId);
+                    return this.backupManager.restoreBackup(
+                        data.serverId,
+                        data.storagePath,
+                        !!data.isS3,
+                        data.s3
+                    );
+                });
 
                 this.socket.emit('backup:restore:complete', { backupId: data.backupId });
             } catch (error) {
@@ -439,6 +857,105 @@ class Daemon {
             }
         });
 
+        // Schedules
+        this.socket.on('schedule:list', (data: { serverId?: string; requestId: string }) => {
+            this.socket.emit('schedule:list:response', {
+                requestId: data.requestId,
+                schedules: this.scheduleManager.list(data.serverId),
+            });
+        });
+
+        this.socket.on('schedule:save', async (data: { schedule: Schedule; requestId: string }) => {
+            try {
+                const schedule = await this.scheduleManager.save(data.schedule);
+                this.socket.emit('schedule:save:response', { requestId: data.requestId, schedule });
+            } catch (error) {
+                this.socket.emit('schedule:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.socket.on('schedule:sync', async (data: { serverId: string; schedules: Schedule[]; requestId: string }) => {
+            try {
+                const schedules = await this.scheduleManager.sync(data.serverId, data.schedules);
+                this.socket.emit('schedule:sync:response', { requestId: data.requestId, schedules });
+            } catch (error) {
+                this.socket.emit('schedule:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.socket.on('schedule:delete', async (data: { scheduleId: string; requestId: string }) => {
+            try {
+                await this.scheduleManager.delete(data.scheduleId);
+                this.socket.emit('schedule:delete:response', { requestId: data.requestId, success: true });
+            } catch (error) {
+                this.socket.emit('schedule:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.socket.on('schedule:run', (data: { scheduleId: string; requestId: string }) => {
+            try {
+                // The outcome arrives later as schedule:result
+                this.scheduleManager.trigger(data.scheduleId);
+                this.socket.emit('schedule:run:response', { requestId: data.requestId, success: true });
+            } catch (error) {
+                this.socket.emit('schedule:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        // Console logs
+        this.socket.on('logs:list', async (data: { serverId: string; requestId: string }) => {
+            try {
+                const files = await this.consoleLogManager.listLogs(data.serverId);
+                this.socket.emit('logs:list:response', { requestId: data.requestId, files });
+            } catch (error) {
+                this.socket.emit('logs:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.socket.on('logs:read', async (data: { serverId: string; file: string; offset?: number; limit?: number; requestId: string }) => {
+            try {
+                const page = await this.consoleLogManager.readLog(data.serverId, data.file, data.offset, data.limit);
+                this.socket.emit('logs:read:response', { requestId: data.requestId, file: data.file, ...page });
+            } catch (error) {
+                this.socket.emit('logs:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.socket.on('logs:download', async (data: { serverId: string; file: string; requestId: string }) => {
+            try {
+                const content = await this.consoleLogManager.readLogFile(data.serverId, data.file);
+                this.socket.emit('logs:download:response', {
+                    requestId: data.requestId,
+                    file: data.file,
+                    compressed: data.file.endsWith('.gz'),
+                    content,
+                });
+            } catch (error) {
+                this.socket.emit('logs:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
         // Server Query
         this.socket.on('server:query', async (data: { serverId: string; type: string; host: string; port: number; requestId: string }) => {
             try {
@@ -455,89 +972,213 @@ class Daemon {
             }
         });
 
+        // Crash reports
+        this.socket.on('server:crash:list', async (data: { serverId: string; requestId: string }) => {
+            try {
+                const reports = await this.crashReportManager.listReports(data.serverId);
+                this.socket.emit('server:crash:list:response', { requestId: data.requestId, reports });
+            } catch (error) {
+                this.socket.emit('server:crash:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
+        this.socket.on('server:crash:get', async (data: { serverId: string; reportId: string; requestId: string }) => {
+            try {
+                const report = await this.crashReportManager.getReport(data.serverId, data.reportId);
+                this.socket.emit('server:crash:get:response', { requestId: data.requestId, report });
+            } catch (error) {
+                this.socket.emit('server:crash:error', {
+                    requestId: data.requestId,
+                    error: error instanceof Error ? error.message : 'Unknown error'
+                });
+            }
+        });
+
         // Console history request from panel (when client subscribes/reconnects)
-        this.socket.on('server:console:history:request', (data: { serverId: string }) => {
+        this.socket.on('server:console:history:request', (data: { serverId: string; after?: number }) => {
             console.log(`📋 Console history request for server ${data.serverId}`);
-            const history = this.consoleHistory.get(data.serverId) || [];
             this.socket.emit('server:console:history', {
                 serverId: data.serverId,
-                lines: history
+                ...this.consoleHistory.getAfter(data.serverId, data.after),
             });
         });
     }
 
-    private async handleServerStart(serverId: string, config: any) {
-        // Build startup command with variables
-        let startup = config.startup;
-
-        // Replace system variables first
-        startup = startup.replace(/{{SERVER_MEMORY}}/g, config.memory.toString());
-
-        // Replace variables in startup command
-        if (config.variables) {
-            for (const variable of config.variables) {
-                startup = startup.replace(
-                    new RegExp(`{{${variable.envVariable}}}`, 'g'),
-                    variable.value
-                );
+    // Scheduled power actions run without the panel, so they reuse the server's last start config
+    private async handleScheduledPowerAction(serverId: string, action: PowerAction['action']) {
+        await this.stateMachine.run(serverId, action, () => {
+            switch (action) {
+                case 'start':
+                    return this.processManager.startServerWithLastConfig(serverId);
+                case 'stop':
+                    return this.processManager.stopServer(serverId);
+                case 'restart':
+                    return this.processManager.restartServer(serverId);
+                case 'kill':
+                    return this.processManager.killServer(serverId);
             }
-        }
+        });
+    }
 
-        // Replace allocation variables
-        if (config.allocation) {
-            startup = startup.replace(/{{SERVER_IP}}/g, config.allocation.ip);
-            startup = startup.replace(/{{SERVER_PORT}}/g, config.allocation.port.toString());
+    private async handleServerStart(serverId: string, config: any) {
+        // Only a config that carries `disk` changes the limit; leaving it out keeps the current one
+        if (config.disk !== undefined) {
+            await this.diskQuotaManager.setLimit(serverId, config.disk);
         }
 
-        // Fallback defaults for common vars
-        startup = startup.replace(/{{SERVER_JARFILE}}/g, 'server.jar');
-        startup = startup.replace(/{{MC_VERSION}}/g, 'latest');
+        const { primary, additional } = this.resolveAllocations(config);
 
-        // Build environment variables
-        const env: Record<string, string> = {
-            SERVER_MEMORY: config.memory.toString(),
-        };
-        if (config.variables) {
-            for (const variable of config.variables) {
-                env[variable.envVariable] = variable.value;
-            }
-        }
-        if (config.allocation) {
-            env.SERVER_IP = config.allocation.ip;
-            env.SERVER_PORT = config.allocation.port.toString();
+        // Refuses to start on unresolved placeholders or variables that break the egg's rules
+        const { command, env } = StartupTemplate.render(config.startup, {
+            memory: config.memory,
+            allocation: primary,
+            allocations: additional,
+            variables: config.variables,
+        });
+
+        // Catch missing files, taken ports and the like before the server gets to fail on them
+        const preflight = await this.preflightChecker.run({
+            serverPath: this.processManager.getServerPath(serverId),
+            command,
+            runtime: config.runtime || this.config.runtime || 'host',
+            allocations: primary ? [primary, ...additional] : additional,
+            getAllocationOwner: (ip, port) => this.processManager.getAllocationOwner(ip, port, serverId),
+            javaVersion: config.javaVersion,
+        });
+        this.socket.emit('server:preflight', { serverId, ...preflight });
+        if (!preflight.passed) {
+            throw new PreflightError(preflight);
         }
 
+        this.consoleHistory.setCapacity(serverId, config.consoleBufferSize);
+
         // Start the process
         await this.processManager.startServer(serverId, {
-            command: startup,
+            command,
             env,
             memory: config.memory,
+            swap: config.swap,
             cpu: config.cpu,
-            port: config.allocation?.port,
-            ip: config.allocation?.ip,
+            port: primary?.port,
+            ip: primary?.ip,
+            allocations: additional,
             mounts: config.mounts,
-            onOutput: (line: string) => {
-                // Store in history buffer (max 200 lines)
-                if (!this.consoleHistory.has(serverId)) {
-                    this.consoleHistory.set(serverId, []);
-                }
-                const history = this.consoleHistory.get(serverId)!;
-                history.push(line);
-                if (history.length > 200) {
-                    history.shift();
-                }
-                this.socket.emit('server:console', { serverId, line });
-            },
+            restartPolicy: config.restartPolicy,
+            stop: config.stop,
+            stopTimeout: config.stopTimeout,
+            done: config.done,
+            startupTimeout: config.startupTimeout,
+            runtime: config.runtime,
+            image: config.image,
+            configFiles: config.configFiles,
+            rcon: config.rcon,
+            ...this.createServerCallbacks(serverId),
+        });
+    }
+
+    // Start payloads carry `allocations` with one marked primary; older panels send a single `allocation`
+    private resolveAllocations(config: any): { primary?: Allocation; additional: Allocation[] } {
+        const allocations: Array<Allocation & { primary?: boolean }> = Array.isArray(config.allocations) ? config.allocations : [];
+        const primary = config.allocation || allocations.find(allocation => allocation.primary) || allocations[0];
+        const additional = allocations
+            .filter(allocation => allocation !== primary && !(primary && allocation.port === primary.port && allocation.ip === primary.ip))
+            .map(({ ip, port }) => ({ ip, port }));
+
+        return {
+            primary: primary ? { ip: primary.ip, port: primary.port } : undefined,
+            additional,
+        };
+    }
+
+    private createServerCallbacks(serverId: string): ServerCallbacks {
+        return {
+            onOutput: (line, stream = 'daemon') => this.emitConsole(serverId, line, stream),
             onStatusChange: (status: string) => {
-                // Clear console history when server stops
+                // History is kept so the panel can still see why a server stopped
                 if (status === 'OFFLINE') {
-                    this.consoleHistory.delete(serverId);
+                    this.consoleLogManager.close(serverId).catch(() => { });
                 }
                 this.socket.emit('server:status', { serverId, status });
             },
+            onCrash: (info) => {
+                console.log(`💥 Server ${serverId} crashed (code ${info.exitCode}, signal ${info.signal})`);
+                this.handleCrash(serverId, info);
+            },
+            onStartupFailed: (reason: string) => {
+                this.socket.emit('server:start:failed', { serverId, reason });
+            },
+            onMountsRejected: (rejected) => {
+                this.socket.emit('server:mounts:rejected', { serverId, rejected });
+            },
+        };
+    }
+
+    private async handleCrash(serverId: string, info: CrashInfo) {
+        let reportId: string | undefined;
+        try {
+            const report = await this.crashReportManager.capture(
+                serverId,
+                this.processManager.getServerPath(serverId),
+                info,
+                this.consoleHistory.getAfter(serverId).entries
+            );
+            reportId = report.id;
+        } catch (error) {
+            console.error(`Failed to write crash report for ${serverId}:`, error);
+        }
+        this.socket.emit('server:crash', { serverId, ...info, reportId });
+    }
+
+    private emitConsole(serverId: string, line: string, stream: OutputStream) {
+        const entry = this.consoleHistory.push(serverId, stream, line);
+        this.consoleLogManager.append(serverId, entry);
+        this.socket.emit('server:console', { serverId, ...entry });
+    }
+
+    private emitUploadError(requestId: string, error: unknown) {
+        this.socket.emit('files:error', {
+            requestId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+            ...(error instanceof DiskQuotaError && { code: 'DISK_QUOTA_EXCEEDED', used: error.used, limit: error.limit }),
+            ...(error instanceof UploadError && { code: error.code, offset: error.offset }),
         });
     }
 
+    private async handleQuotaViolation(violation: QuotaViolation) {
+        const { serverId, used, limit, action, stopAt } = violation;
+        const usage = `${Math.round(used / (1024 * 1024))} MB of ${Math.round(limit / (1024 * 1024))} MB`;
+        this.socket.emit('server:disk:exceeded', violation);
+
+        if (action === 'warn') {
+            console.log(`💾 Server ${serverId} is over its disk limit (${usage})`);
+            this.emitConsole(serverId, stopAt
+                ? `[DAEMON] Disk limit exceeded (${usage}), the server will be stopped at ${stopAt} unless space is freed`
+                : `[DAEMON] Disk limit exceeded (${usage}), file changes are refused until space is freed`, 'daemon');
+            return;
+        }
+
+        console.log(`💾 Stopping server ${serverId}, still over its disk limit (${usage})`);
+        this.emitConsole(serverId, `[DAEMON] Stopping server, disk limit still exceeded (${usage})`, 'daemon');
+        try {
+            await this.stateMachine.run(serverId, 'stop', () => this.processManager.stopServer(serverId));
+        } catch (error) {
+            console.error(`Failed to stop ${serverId} over its disk limit:`, error);
+        }
+    }
+
+    // Tell the panel about every server this daemon is currently running
+    private reportServerStatuses() {
+        if (!this.processManager) {
+            return;
+        }
+        for (const [serverId, status] of Object.entries(this.processManager.getServerStatuses())) {
+            this.socket.emit('server:status', { serverId, status });
+        }
+    }
+
     private startSystemMonitoring() {
         // Send system stats periodically
         setInterval(async () => {
@@ -547,7 +1188,16 @@ class Daemon {
             // Get stats for all running servers
             const serverStats = await this.processManager.getAllServerStats();
             for (const [serverId, stats] of Object.entries(serverStats)) {
-                this.socket.emit('server:stats', { serverId, ...stats });
+                // Disk usage comes from the quota scan, stats never wait for a directory walk
+                const disk = this.diskQuotaManager.getCachedUsage(serverId);
+                this.socket.emit('server:stats', {
+                    serverId,
+                    ...stats,
+                    ...(disk && {
+                        disk: Math.round(disk.used / (1024 * 1024)), // MB
+                        diskLimit: disk.limit ? Math.round(disk.limit / (1024 * 1024)) : undefined,
+                    }),
+                });
             }
         }, this.config.system.check_interval);
     }
@@ -555,8 +1205,14 @@ class Daemon {
     async shutdown() {
         console.log('🛑 Shutting down daemon...');
 
-        // Stop all servers gracefully
-        await this.processManager.stopAllServers();
+        this.scheduleManager.stop();
+        this.diskQuotaManager.stop();
+        this.uploadManager.stop();
+        await this.fileTransferServer?.stop();
+        await this.consoleLogManager.closeAll();
+
+        // Leave game servers running under their supervisors; the next daemon reattaches to them
+        this.processManager.detachAllServers();
 
         // Disconnect from panel
         this.socket.disconnect();
@@ -0,0 +1,175 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+interface CgroupLimits {
+    memory: number;          // MB, 0 = unlimited
+    swap: number;            // MB, 0 = no swap, -1 = unlimited
+    cpu: number;             // Percent of a single core, 0 = unlimited
+}
+
+interface CgroupStats {
+    cpu: number;             // Percent of a single core since the last sample
+    memory: number;          // MB
+    memoryLimit: number;     // MB, 0 = unlimited
+}
+
+const CONTROLLERS = ['cpu', 'memory', 'pids'];
+
+// cpu.max period in microseconds
+const CPU_PERIOD = 100000;
+
+/**
+ * Manages one cgroup v2 group per server below a daemon-owned parent group.
+ * The supervisor moves itself into the group before spawning the game, so
+ * every descendant process is accounted for and limited.
+ */
+export class CgroupManager {
+    private root: string;
+    private memoryPadding: number;
+    private cpuSamples: Map<string, { usage: number; time: number }> = new Map();
+
+    constructor(root: string, memoryPadding: number = 0) {
+        this.root = root;
+        this.memoryPadding = memoryPadding;
+    }
+
+    // cgroup v2 must be mounted and writable (the daemon runs as root or with a delegated subtree)
+    static async isSupported(root: string): Promise<boolean> {
+        try {
+            const mountPoint = path.dirname(root);
+            await fs.access(path.join(mountPoint, 'cgroup.controllers'));
+            await fs.access(mountPoint, fs.constants.W_OK);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    getPath(serverId: string): string {
+        return path.join(this.root, serverId);
+    }
+
+    async create(serverId: string, limits: CgroupLimits): Promise<string> {
+        await this.ensureRoot();
+
+        const cgroupPath = this.getPath(serverId);
+        await fs.mkdir(cgroupPath, { recursive: true });
+
+        const memory = limits.memory > 0 ? this.toBytes(limits.memory + this.memoryPadding) : 'max';
+        const swap = limits.swap < 0 ? 'max' : this.toBytes(limits.swap);
+        const cpu = limits.cpu > 0 ? `${Math.round(limits.cpu / 100 * CPU_PERIOD)} ${CPU_PERIOD}` : `max ${CPU_PERIOD}`;
+
+        await fs.writeFile(path.join(cgroupPath, 'memory.max'), memory);
+        await fs.writeFile(path.join(cgroupPath, 'cpu.max'), cpu);
+        try {
+            await fs.writeFile(path.join(cgroupPath, 'memory.swap.max'), swap);
+        } catch (error) {
+            // Kernels booted without swap accounting don't expose memory.swap.max
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+
+        this.cpuSamples.delete(serverId);
+        console.log(`[Cgroup] Created ${cgroupPath}: memory.max=${memory}, memory.swap.max=${swap}, cpu.max=${cpu}`);
+        return cgroupPath;
+    }
+
+    // SIGKILL every process in the group, wherever in its process tree
+    async killAll(serverId: string): Promise<void> {
+        const cgroupPath = this.getPath(serverId);
+        try {
+            await fs.writeFile(path.join(cgroupPath, 'cgroup.kill'), '1');
+            return;
+        } catch (error) {
+            // cgroup.kill needs Linux 5.14
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+        const procs = await fs.readFile(path.join(cgroupPath, 'cgroup.procs'), 'utf-8').catch(() => '');
+        for (const pid of procs.split('\n').map(Number).filter(Boolean)) {
+            try {
+                process.kill(pid, 'SIGKILL');
+            } catch { }
+        }
+    }
+
+    async remove(serverId: string): Promise<void> {
+        this.cpuSamples.delete(serverId);
+        try {
+            await fs.rmdir(this.getPath(serverId));
+        } catch (error) {
+            const code = (error as NodeJS.ErrnoException).code;
+            if (code !== 'ENOENT' && code !== 'EBUSY') {
+                throw error;
+            }
+        }
+    }
+
+    async getStats(serverId: string): Promise<CgroupStats> {
+        const cgroupPath = this.getPath(serverId);
+
+        const [current, max, cpuStat] = await Promise.all([
+            fs.readFile(path.join(cgroupPath, 'memory.current'), 'utf-8'),
+            fs.readFile(path.join(cgroupPath, 'memory.max'), 'utf-8'),
+            fs.readFile(path.join(cgroupPath, 'cpu.stat'), 'utf-8'),
+        ]);
+
+        // CPU usage is the delta of usage_usec between two samples
+        const usage = this.parseKeyed(cpuStat).usage_usec || 0;
+        const now = Date.now();
+        const previous = this.cpuSamples.get(serverId);
+        this.cpuSamples.set(serverId, { usage, time: now });
+
+        let cpu = 0;
+        if (previous && now > previous.time) {
+            cpu = (usage - previous.usage) / ((now - previous.time) * 1000) * 100;
+        }
+
+        return {
+            cpu: Math.round(Math.max(cpu, 0) * 100) / 100,
+            memory: Math.round(parseInt(current, 10) / (1024 * 1024)),
+            memoryLimit: max.trim() === 'max' ? 0 : Math.round(parseInt(max, 10) / (1024 * 1024)),
+        };
+    }
+
+    // Number of processes the kernel OOM killer has killed in this group so far
+    async getOomKillCount(serverId: string): Promise<number> {
+        try {
+            const events = await fs.readFile(path.join(this.getPath(serverId), 'memory.events'), 'utf-8');
+            return this.parseKeyed(events).oom_kill || 0;
+        } catch {
+            return 0;
+        }
+    }
+
+    private async ensureRoot(): Promise<void> {
+        await fs.mkdir(this.root, { recursive: true });
+
+        // Controllers must be enabled on every level above the server groups
+        const parent = path.dirname(this.root);
+        for (const dir of [parent, this.root]) {
+            const available = (await fs.readFile(path.join(dir, 'cgroup.controllers'), 'utf-8')).split(/\s+/);
+            const wanted = CONTROLLERS.filter(c => available.includes(c)).map(c => `+${c}`).join(' ');
+            if (wanted) {
+                await fs.writeFile(path.join(dir, 'cgroup.subtree_control'), wanted);
+            }
+        }
+    }
+
+    private parseKeyed(content: string): Record<string, number> {
+        const values: Record<string, number> = {};
+        for (const line of content.split('\n')) {
+            const [key, value] = line.trim().split(/\s+/);
+            if (key && value !== undefined) {
+                values[key] = parseInt(value, 10);
+            }
+        }
+        return values;
+    }
+
+    private toBytes(megabytes: number): string {
+        return Math.round(megabytes * 1024 * 1024).toString();
+    }
+}
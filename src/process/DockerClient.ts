@@ -0,0 +1,141 @@
+import http from 'http';
+import net from 'net';
+
+export class DockerApiError extends Error {
+    statusCode: number;
+
+    constructor(statusCode: number, message: string) {
+        super(message);
+        this.name = 'DockerApiError';
+        this.statusCode = statusCode;
+    }
+}
+
+const API_VERSION = 'v1.41';
+
+/**
+ * Minimal Docker Engine API client over the daemon's unix socket.
+ * Only covers what DockerRuntime needs; any server speaking the same HTTP
+ * API on a unix socket (e.g. a fake in tests) works.
+ */
+export class DockerClient {
+    private socketPath: string;
+
+    constructor(socketPath: string) {
+        this.socketPath = socketPath;
+    }
+
+    request<T = any>(method: string, apiPath: string, body?: unknown): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const payload = body === undefined ? undefined : JSON.stringify(body);
+
+            const req = http.request({
+                socketPath: this.socketPath,
+                path: `/${API_VERSION}${apiPath}`,
+                method,
+                headers: payload ? {
+                    'Content-Type': 'application/json',
+                    'Content-Length': Buffer.byteLength(payload),
+                } : {},
+            }, (res) => {
+                let data = '';
+                res.on('data', (chunk) => { data += chunk; });
+                res.on('end', () => {
+                    const status = res.statusCode || 0;
+                    let parsed: any = data;
+                    try {
+                        parsed = data ? JSON.parse(data) : undefined;
+                    } catch { }
+
+                    if (status >= 400) {
+                        const message = parsed?.message || `Docker API ${method} ${apiPath} failed with HTTP ${status}`;
+                        reject(new DockerApiError(status, message));
+                    } else {
+                        resolve(parsed as T);
+                    }
+                });
+            });
+
+            req.on('error', reject);
+            if (payload) {
+                req.write(payload);
+            }
+            req.end();
+        });
+    }
+
+    // For endpoints that stream newline-delimited JSON progress (image pulls)
+    stream(method: string, apiPath: string, onMessage: (message: any) => void): Promise<void> {
+        return new Promise((resolve, reject) => {
+            const req = http.request({
+                socketPath: this.socketPath,
+                path: `/${API_VERSION}${apiPath}`,
+                method,
+            }, (res) => {
+                if ((res.statusCode || 0) >= 400) {
+                    let data = '';
+                    res.on('data', (chunk) => { data += chunk; });
+                    res.on('end', () => {
+                        let message = `Docker API ${method} ${apiPath} failed with HTTP ${res.statusCode}`;
+                        try {
+                            message = JSON.parse(data).message || message;
+                        } catch { }
+                        reject(new DockerApiError(res.statusCode || 0, message));
+                    });
+                    return;
+                }
+
+                let buffer = '';
+                res.on('data', (chunk) => {
+                    buffer += chunk.toString();
+                    let index: number;
+                    while ((index = buffer.indexOf('\n')) !== -1) {
+                        const line = buffer.slice(0, index).trim();
+                        buffer = buffer.slice(index + 1);
+                        if (!line) {
+                            continue;
+                        }
+                        try {
+                            onMessage(JSON.parse(line));
+                        } catch { }
+                    }
+                });
+                res.on('end', () => resolve());
+                res.on('error', reject);
+            });
+
+            req.on('error', reject);
+            req.end();
+        });
+    }
+
+    // Hijacks the connection for /containers/{id}/attach; the socket carries stdin and multiplexed output
+    attach(containerId: string): Promise<net.Socket> {
+        return new Promise((resolve, reject) => {
+            const req = http.request({
+                socketPath: this.socketPath,
+                path: `/${API_VERSION}/containers/${containerId}/attach?stream=1&stdin=1&stdout=1&stderr=1`,
+                method: 'POST',
+                headers: {
+                    Connection: 'Upgrade',
+                    Upgrade: 'tcp',
+                },
+            });
+
+            req.on('upgrade', (_res, socket, head) => {
+                if (head.length > 0) {
+                    socket.unshift(head);
+                }
+                resolve(socket);
+            });
+
+            req.on('response', (res) => {
+                reject(new DockerApiError(res.statusCode || 0, `Failed to attach to container ${containerId}`));
+                res.resume();
+            });
+
+            req.on('error', reject);
+            req.end();
+        });
+    }
+}
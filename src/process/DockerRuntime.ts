@@ -0,0 +1,357 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+import { DockerApiError, DockerClient } from './DockerClient.js';
+import { Allocation, ExitedHandle, RuntimeSpec, RuntimeStats, ServerHandle, ServerRuntime, StartedServer } from './ServerRuntime.js';
+import { ListeningSocket, SocketTable } from './SocketTable.js';
+
+interface DockerState {
+    containerId: string;
+}
+
+interface DockerRuntimeOptions {
+    network?: string;        // Docker network to attach containers to (default: bridge)
+    memoryPadding?: number;  // MB added on top of the server's memory limit
+}
+
+// Where the server directory is mounted inside the container
+const CONTAINER_HOME = '/home/container';
+
+/**
+ * Console connection to a container through a hijacked attach socket.
+ * Non-TTY containers multiplex stdout and stderr as frames with an 8 byte
+ * header: [stream, 0, 0, 0, size (uint32 BE)].
+ */
+class DockerContainerHandle extends EventEmitter implements ServerHandle {
+    pid?: number;
+    startedAt?: Date;
+    exited = false;
+
+    private client: DockerClient;
+    private containerId: string;
+    private socket: net.Socket;
+    private buffer = Buffer.alloc(0);
+    private decoders = { stdout: new StringDecoder('utf8'), stderr: new StringDecoder('utf8') };
+    private queue: Array<[string, ...unknown[]]> = [];
+    private paused = true;
+    private detached = false;
+
+    constructor(client: DockerClient, containerId: string, socket: net.Socket, pid?: number, startedAt?: Date) {
+        super();
+        this.client = client;
+        this.containerId = containerId;
+        this.socket = socket;
+        this.pid = pid;
+        this.startedAt = startedAt;
+
+        socket.on('data', (data: Buffer) => this.demux(data));
+        socket.on('close', () => {
+            if (!this.detached) {
+                this.collectExit();
+            }
+        });
+        socket.on('error', () => { });
+    }
+
+    get writable(): boolean {
+        return !this.exited && !this.socket.destroyed && this.socket.writable;
+    }
+
+    write(data: string): boolean {
+        if (!this.writable) {
+            return false;
+        }
+        this.socket.write(data);
+        return true;
+    }
+
+    kill(signal: NodeJS.Signals): boolean {
+        if (this.exited) {
+            return false;
+        }
+        this.client.request('POST', `/containers/${this.containerId}/kill?signal=${signal}`).catch((error) => {
+            console.error(`[Docker] Failed to send ${signal} to ${this.containerId}:`, error.message);
+        });
+        return true;
+    }
+
+    resume(): void {
+        this.paused = false;
+        for (const [event, ...args] of this.queue.splice(0)) {
+            this.deliver(event, ...args);
+        }
+    }
+
+    detach(): void {
+        this.detached = true;
+        this.socket.destroy();
+    }
+
+    private demux(data: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, data]);
+
+        while (this.buffer.length >= 8) {
+            const size = this.buffer.readUInt32BE(4);
+            if (this.buffer.length < 8 + size) {
+                break;
+            }
+
+            const stream = this.buffer[0] === 2 ? 'stderr' : 'stdout';
+            const text = this.decoders[stream].write(this.buffer.subarray(8, 8 + size));
+            this.buffer = this.buffer.subarray(8 + size);
+
+            if (text) {
+                this.deliver(stream, text);
+            }
+        }
+    }
+
+    // The attach stream ends when the container stops; ask Docker how it ended
+    private async collectExit(): Promise<void> {
+        try {
+            const info = await this.client.request('GET', `/containers/${this.containerId}/json`);
+            if (info.State?.Running) {
+                this.deliver('exit', null, null, 'Lost connection to container');
+            } else {
+                this.deliver('exit', info.State?.ExitCode ?? null, null);
+            }
+        } catch (error) {
+            this.deliver('exit', null, null, error instanceof Error ? error.message : 'Failed to inspect container');
+        }
+    }
+
+    private deliver(event: string, ...args: unknown[]): void {
+        if (this.paused) {
+            this.queue.push([event, ...args]);
+            return;
+        }
+        if (event === 'exit') {
+            if (this.exited) {
+                return;
+            }
+            this.exited = true;
+        }
+        this.emit(event, ...args);
+    }
+}
+
+/**
+ * Runs each server in its own container through the Docker Engine API, with
+ * the server directory bind-mounted as the container's home directory.
+ */
+export class DockerRuntime implements ServerRuntime {
+    readonly name = 'docker';
+    readonly enforcesReadOnlyMounts = true;
+    private client: DockerClient;
+    private options: DockerRuntimeOptions;
+
+    constructor(client: DockerClient, options: DockerRuntimeOptions = {}) {
+        this.client = client;
+        this.options = options;
+    }
+
+    async start(spec: RuntimeSpec): Promise<StartedServer> {
+        if (!spec.image) {
+            throw new Error('No container image configured for this server');
+        }
+
+        // Containers are recreated on every start so limit and port changes apply
+        await this.removeContainer(this.getContainerName(spec.serverId));
+
+        const body = this.buildContainerConfig(spec);
+        let created: { Id: string };
+        try {
+            created = await this.client.request('POST', `/containers/create?name=${this.getContainerName(spec.serverId)}`, body);
+        } catch (error) {
+            if (!(error instanceof DockerApiError) || error.statusCode !== 404) {
+                throw error;
+            }
+            await this.pullImage(spec.image);
+            created = await this.client.request('POST', `/containers/create?name=${this.getContainerName(spec.serverId)}`, body);
+        }
+
+        // Attach before starting so no early output is lost
+        const socket = await this.client.attach(created.Id);
+        try {
+            await this.client.request('POST', `/containers/${created.Id}/start`);
+        } catch (error) {
+            socket.destroy();
+            await this.removeContainer(created.Id);
+            throw error;
+        }
+
+        const info = await this.client.request('GET', `/containers/${created.Id}/json`);
+        const handle = new DockerContainerHandle(
+            this.client,
+            created.Id,
+            socket,
+            info.State?.Pid || undefined,
+            info.State?.StartedAt ? new Date(info.State.StartedAt) : new Date()
+        );
+
+        const state: DockerState = { containerId: created.Id };
+        return { handle, state };
+    }
+
+    async reattach(serverId: string, state: DockerState): Promise<ServerHandle> {
+        let info: any;
+        try {
+            info = await this.client.request('GET', `/containers/${state.containerId}/json`);
+        } catch (error) {
+            if (error instanceof DockerApiError && error.statusCode === 404) {
+                return new ExitedHandle(null, null, 'Container no longer exists');
+            }
+            throw error;
+        }
+
+        if (!info.State?.Running) {
+            return new ExitedHandle(info.State?.ExitCode ?? null, null, 'Server exited while the daemon was offline');
+        }
+
+        const socket = await this.client.attach(state.containerId);
+        return new DockerContainerHandle(
+            this.client,
+            state.containerId,
+            socket,
+            info.State.Pid || undefined,
+            new Date(info.State.StartedAt)
+        );
+    }
+
+    async getStats(serverId: string, handle: ServerHandle, state: DockerState): Promise<RuntimeStats> {
+        const stats = await this.client.request('GET', `/containers/${state.containerId}/stats?stream=false`);
+
+        // Same calculation as `docker stats`, scaled so 100 = one core
+        const cpuDelta = (stats.cpu_stats?.cpu_usage?.total_usage || 0) - (stats.precpu_stats?.cpu_usage?.total_usage || 0);
+        const systemDelta = (stats.cpu_stats?.system_cpu_usage || 0) - (stats.precpu_stats?.system_cpu_usage || 0);
+        const onlineCpus = stats.cpu_stats?.online_cpus || 1;
+        const cpu = systemDelta > 0 && cpuDelta > 0 ? (cpuDelta / systemDelta) * onlineCpus * 100 : 0;
+
+        // Page cache is reclaimable and not counted, like `docker stats` does
+        const cache = stats.memory_stats?.stats?.inactive_file ?? stats.memory_stats?.stats?.cache ?? 0;
+        const memory = Math.max((stats.memory_stats?.usage || 0) - cache, 0);
+
+        return {
+            cpu: Math.round(cpu * 100) / 100,
+            memory: Math.round(memory / (1024 * 1024)),
+            memoryLimit: stats.memory_stats?.limit ? Math.round(stats.memory_stats.limit / (1024 * 1024)) : undefined,
+        };
+    }
+
+    // The container has its own network namespace, so everything listening in it belongs to the server
+    async getListeningSockets(serverId: string, handle: ServerHandle): Promise<ListeningSocket[]> {
+        return handle.pid ? SocketTable.listListening(handle.pid) : [];
+    }
+
+    async wasOomKilled(serverId: string, state: DockerState): Promise<boolean> {
+        try {
+            const info = await this.client.request('GET', `/containers/${state.containerId}/json`);
+            return !!info.State?.OOMKilled;
+        } catch {
+            return false;
+        }
+    }
+
+    async cleanup(serverId: string, state: DockerState): Promise<void> {
+        await this.removeContainer(state.containerId);
+    }
+
+    async removeServer(serverId: string): Promise<void> {
+        await this.removeContainer(this.getContainerName(serverId));
+    }
+
+    private buildContainerConfig(spec: RuntimeSpec): object {
+        const exposedPorts: Record<string, object> = {};
+        const portBindings: Record<string, Array<{ HostIp: string; HostPort: string }>> = {};
+        const allocations: Allocation[] = [
+            ...(spec.port ? [{ ip: spec.ip || '0.0.0.0', port: spec.port }] : []),
+            ...(spec.allocations || []),
+        ];
+        // Ports are published as-is, so the server binds the same port numbers inside the container
+        for (const { ip, port } of allocations) {
+            for (const protocol of ['tcp', 'udp']) {
+                exposedPorts[`${port}/${protocol}`] = {};
+                (portBindings[`${port}/${protocol}`] ||= []).push({ HostIp: ip || '0.0.0.0', HostPort: port.toString() });
+            }
+        }
+
+        const memoryPadding = this.options.memoryPadding || 0;
+        const memory = spec.memory > 0 ? (spec.memory + memoryPadding) * 1024 * 1024 : 0;
+        // MemorySwap is memory + swap; -1 allows unlimited swap
+        const memorySwap = memory === 0 ? 0 : spec.swap < 0 ? -1 : memory + spec.swap * 1024 * 1024;
+
+        const env = { ...spec.env, HOME: CONTAINER_HOME };
+
+        const binds = [`${path.resolve(spec.cwd)}:${CONTAINER_HOME}`];
+        // Mount symlinks in the server directory point at the host paths, so bind those in place
+        for (const mount of spec.mounts || []) {
+            binds.push(`${mount.source}:${mount.source}${mount.readOnly ? ':ro' : ''}`);
+        }
+
+        return {
+            Image: spec.image,
+            Entrypoint: ['/bin/sh', '-c'],
+            Cmd: [[spec.command, ...spec.args].join(' ')],
+            WorkingDir: CONTAINER_HOME,
+            Env: Object.entries(env).map(([key, value]) => `${key}=${value}`),
+            Labels: { 'hyprdash.server': spec.serverId },
+            User: spec.user ? `${spec.user.uid}:${spec.user.gid}` : undefined,
+            AttachStdin: true,
+            AttachStdout: true,
+            AttachStderr: true,
+            OpenStdin: true,
+            StdinOnce: false,
+            Tty: false,
+            ExposedPorts: exposedPorts,
+            HostConfig: {
+                Binds: binds,
+                PortBindings: portBindings,
+                Memory: memory,
+                MemorySwap: memorySwap,
+                NanoCpus: spec.cpu > 0 ? Math.round(spec.cpu / 100 * 1e9) : 0,
+                NetworkMode: this.options.network || 'bridge',
+                Init: true,
+            },
+        };
+    }
+
+    private async pullImage(image: string): Promise<void> {
+        console.log(`[Docker] Pulling image ${image}`);
+        const [name, tag] = this.splitImage(image);
+
+        let error: string | undefined;
+        await this.client.stream('POST', `/images/create?fromImage=${encodeURIComponent(name)}&tag=${encodeURIComponent(tag)}`, (message) => {
+            if (message.error) {
+                error = message.error;
+            }
+        });
+
+        if (error) {
+            throw new Error(`Failed to pull image ${image}: ${error}`);
+        }
+    }
+
+    private splitImage(image: string): [string, string] {
+        // A colon after the last slash separates the tag (registry hosts may contain a port)
+        const lastColon = image.lastIndexOf(':');
+        if (lastColon > image.lastIndexOf('/')) {
+            return [image.slice(0, lastColon), image.slice(lastColon + 1)];
+        }
+        return [image, 'latest'];
+    }
+
+    private async removeContainer(nameOrId: string): Promise<void> {
+        try {
+            await this.client.request('DELETE', `/containers/${nameOrId}?force=1&v=1`);
+        } catch (error) {
+            if (!(error instanceof DockerApiError) || error.statusCode !== 404) {
+                throw error;
+            }
+        }
+    }
+
+    private getContainerName(serverId: string): string {
+        return `hyprdash-${serverId}`;
+    }
+}
@@ -0,0 +1,318 @@
+import { spawn } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import pidusage from 'pidusage';
+import { SupervisorClient } from './SupervisorClient.js';
+import { CgroupManager } from './CgroupManager.js';
+import { ListeningSocket, SocketTable } from './SocketTable.js';
+import { ExitedHandle, RuntimeSpec, RuntimeStats, ServerHandle, ServerRuntime, StartedServer } from './ServerRuntime.js';
+
+interface HostRuntimeOptions {
+    namespace?: boolean;     // Confine servers to their directory and mounts with bubblewrap
+}
+
+interface HostState {
+    supervisorPid: number;
+    cgroup?: string;         // cgroup v2 directory the server runs in
+    oomKillsAtStart: number; // memory.events oom_kill counter when the server was spawned
+}
+
+// Compiled alongside this file; keep the extension so it also runs under tsx
+const SUPERVISOR_PATH = fileURLToPath(
+    new URL(`./supervisor${path.extname(fileURLToPath(import.meta.url))}`, import.meta.url)
+);
+
+// Time a supervisor that couldn't be reached gets to pass SIGTERM on to the game
+const ABANDON_GRACE_MS = 1000;
+
+/**
+ * Runs servers as host processes, each owned by a detached supervisor so it
+ * survives daemon restarts. Limits are enforced through cgroup v2 when available.
+ */
+export class HostRuntime implements ServerRuntime {
+    readonly name = 'host';
+    private stateDirectory: string;
+    private cgroups?: CgroupManager;
+    private options: HostRuntimeOptions;
+
+    constructor(stateDirectory: string, cgroups?: CgroupManager, options: HostRuntimeOptions = {}) {
+        this.stateDirectory = stateDirectory;
+        this.cgroups = cgroups;
+        this.options = options;
+    }
+
+    // Plain host processes can write anywhere their user may; only the sandbox binds mounts read-only
+    get enforcesReadOnlyMounts(): boolean {
+        return !!this.options.namespace;
+    }
+
+    async start(spec: RuntimeSpec): Promise<StartedServer> {
+        const { serverId } = spec;
+
+        // Refuse to start without limits rather than let one server starve the node
+        let cgroup: string | undefined;
+        let oomKillsAtStart = 0;
+        if (this.cgroups) {
+            try {
+                cgroup = await this.cgroups.create(serverId, {
+                    memory: spec.memory,
+                    swap: spec.swap,
+                    cpu: spec.cpu,
+                });
+                oomKillsAtStart = await this.cgroups.getOomKillCount(serverId);
+            } catch (error) {
+                console.error(`[Cgroup] Failed to set up cgroup for ${serverId}:`, error);
+                throw new Error(`Failed to apply resource limits: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            }
+        }
+
+        await fs.mkdir(this.stateDirectory, { recursive: true });
+
+        const socketPath = this.getStatePath(serverId, 'sock');
+        const exitPath = this.getStatePath(serverId, 'exit.json');
+        const specPath = this.getStatePath(serverId, 'spec.json');
+
+        const cwd = path.resolve(spec.cwd);
+        const [command, args] = this.options.namespace
+            ? this.wrapInNamespace(spec, cwd)
+            : [spec.command, spec.args];
+
+        await fs.rm(exitPath, { force: true });
+        await fs.writeFile(specPath, JSON.stringify({
+            serverId,
+            command,
+            args,
+            cwd,
+            env: this.buildEnvironment(spec, cwd),
+            socketPath,
+            exitPath,
+            cgroup,
+            uid: spec.user?.uid,
+            gid: spec.user?.gid,
+        }), { mode: 0o600 });
+
+        // Reuse the daemon's loader flags (tsx in development), but never its debugger port
+        const execArgv = process.execArgv.filter(arg => !arg.startsWith('--inspect'));
+        const supervisor = spawn(process.execPath, [...execArgv, SUPERVISOR_PATH, specPath], {
+            detached: true,
+            stdio: 'ignore',
+        });
+        supervisor.unref();
+
+        if (!supervisor.pid) {
+            await fs.rm(specPath, { force: true });
+            throw new Error('Failed to launch server supervisor');
+        }
+
+        let handle: ServerHandle;
+        try {
+            handle = await SupervisorClient.connect(socketPath);
+        } catch (error) {
+            // Nothing would ever reattach to a supervisor we couldn't reach
+            await this.abandon(serverId, supervisor.pid, cgroup);
+            throw error;
+        }
+        const state: HostState = { supervisorPid: supervisor.pid, cgroup, oomKillsAtStart };
+        return { handle, state };
+    }
+
+    private async abandon(serverId: string, supervisorPid: number, cgroup?: string): Promise<void> {
+        console.error(`[Supervisor] Could not connect to the supervisor of ${serverId}, stopping it`);
+        if (cgroup && this.cgroups) {
+            await this.cgroups.killAll(serverId).catch(() => { });
+        } else {
+            // The supervisor passes SIGTERM on to the game's process group before it is killed itself
+            try {
+                process.kill(supervisorPid, 'SIGTERM');
+            } catch { }
+            await new Promise(resolve => setTimeout(resolve, ABANDON_GRACE_MS));
+        }
+        try {
+            process.kill(supervisorPid, 'SIGKILL');
+        } catch { }
+
+        if (cgroup && this.cgroups) {
+            // Killed processes leave the group a moment later; until then it can't be removed
+            for (let attempt = 0; attempt < 10 && await this.cgroupExists(cgroup); attempt++) {
+                await this.cgroups.remove(serverId).catch(() => { });
+                await new Promise(resolve => setTimeout(resolve, 100));
+            }
+        }
+        for (const suffix of ['sock', 'exit.json', 'spec.json']) {
+            await fs.rm(this.getStatePath(serverId, suffix), { force: true });
+        }
+    }
+
+    private async cgroupExists(cgroup: string): Promise<boolean> {
+        return fs.access(cgroup).then(() => true, () => false);
+    }
+
+    async reattach(serverId: string): Promise<ServerHandle> {
+        try {
+            return await SupervisorClient.connect(this.getStatePath(serverId, 'sock'), 1000);
+        } catch {
+            // The supervisor is gone; its exit file tells us how the server ended
+            const exit = await this.readExitStatus(serverId);
+            return new ExitedHandle(
+                exit ? exit.code : null,
+                exit ? exit.signal : null,
+                'Server exited while the daemon was offline'
+            );
+        }
+    }
+
+    async getStats(serverId: string, handle: ServerHandle, state: HostState): Promise<RuntimeStats> {
+        // The cgroup covers every process of the server, not just the top one
+        if (state.cgroup && this.cgroups) {
+            return this.cgroups.getStats(serverId);
+        }
+
+        if (!handle.pid) {
+            return { cpu: 0, memory: 0 };
+        }
+
+        // The top process is usually just the sh wrapper; the game and its helpers are its descendants
+        const pids = await this.getProcessTree(handle.pid);
+        const usages = await Promise.allSettled(pids.map(pid => pidusage(pid)));
+
+        let cpu = 0;
+        let memory = 0;
+        for (const usage of usages) {
+            // Processes may exit between listing and measuring
+            if (usage.status === 'fulfilled') {
+                cpu += usage.value.cpu;
+                memory += usage.value.memory;
+            }
+        }
+
+        return {
+            cpu: Math.round(cpu * 100) / 100,
+            memory: Math.round(memory / (1024 * 1024)), // Convert to MB
+        };
+    }
+
+    // The network namespace is shared with the host, so only sockets held by the server's processes count
+    async getListeningSockets(serverId: string, handle: ServerHandle): Promise<ListeningSocket[]> {
+        if (!handle.pid) {
+            return [];
+        }
+        const inodes = await SocketTable.getSocketInodes(await this.getProcessTree(handle.pid));
+        const sockets = await SocketTable.listListening(handle.pid);
+        return sockets.filter(socket => inodes.has(socket.inode));
+    }
+
+    // The process and all of its descendants, found through the parent pids in /proc
+    private async getProcessTree(rootPid: number): Promise<number[]> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir('/proc');
+        } catch {
+            return [rootPid];
+        }
+
+        const children = new Map<number, number[]>();
+        for (const entry of entries) {
+            if (!/^\d+$/.test(entry)) {
+                continue;
+            }
+            try {
+                const stat = await fs.readFile(`/proc/${entry}/stat`, 'utf-8');
+                // The command name may contain spaces and parentheses; fields after it are fixed
+                const ppid = Number(stat.slice(stat.lastIndexOf(')') + 2).split(' ')[1]);
+                const siblings = children.get(ppid) || [];
+                siblings.push(Number(entry));
+                children.set(ppid, siblings);
+            } catch { }
+        }
+
+        const pids = [rootPid];
+        for (let i = 0; i < pids.length; i++) {
+            pids.push(...(children.get(pids[i]) || []));
+        }
+        return pids;
+    }
+
+    // The kernel OOM killer shows up as a plain SIGKILL; the cgroup's counter tells them apart
+    async wasOomKilled(serverId: string, state: HostState): Promise<boolean> {
+        if (!state.cgroup || !this.cgroups) {
+            return false;
+        }
+        return await this.cgroups.getOomKillCount(serverId) > (state.oomKillsAtStart || 0);
+    }
+
+    async cleanup(serverId: string): Promise<void> {
+        for (const suffix of ['exit.json', 'spec.json']) {
+            await fs.rm(this.getStatePath(serverId, suffix), { force: true });
+        }
+    }
+
+    async removeServer(serverId: string): Promise<void> {
+        await this.cgroups?.remove(serverId);
+    }
+
+    // Servers get an explicit environment; nothing from the daemon's own (possibly secret) env leaks in
+    private buildEnvironment(spec: RuntimeSpec, home: string): Record<string, string> {
+        const env: Record<string, string> = {
+            PATH: process.env.PATH || '/usr/local/sbin:/usr/local/bin:/usr/sbin:/usr/bin:/sbin:/bin',
+            LANG: process.env.LANG || 'C.UTF-8',
+            TERM: 'xterm',
+            USER: 'container',
+        };
+        if (process.env.TZ) {
+            env.TZ = process.env.TZ;
+        }
+
+        return { ...env, ...spec.env, HOME: home };
+    }
+
+    /**
+     * Run the command inside a bubblewrap sandbox with its own mount, PID and
+     * IPC namespaces. The host's system directories are visible read-only; the
+     * only writable paths are the server directory, its mounts and a private /tmp.
+     */
+    private wrapInNamespace(spec: RuntimeSpec, cwd: string): [string, string[]] {
+        const args = [
+            '--die-with-parent',
+            '--unshare-pid',
+            '--unshare-ipc',
+            '--unshare-uts',
+            '--ro-bind', '/usr', '/usr',
+            '--ro-bind-try', '/bin', '/bin',
+            '--ro-bind-try', '/sbin', '/sbin',
+            '--ro-bind-try', '/lib', '/lib',
+            '--ro-bind-try', '/lib64', '/lib64',
+            '--ro-bind', '/etc', '/etc',
+            '--proc', '/proc',
+            '--dev', '/dev',
+            '--tmpfs', '/tmp',
+            '--bind', cwd, cwd,
+        ];
+
+        // Mount symlinks in the server directory point at the source paths, so bind those in place
+        for (const mount of spec.mounts || []) {
+            args.push(mount.readOnly ? '--ro-bind' : '--bind', mount.source, mount.source);
+        }
+
+        args.push('--chdir', cwd, '--', '/bin/sh', '-c', [spec.command, ...spec.args].join(' '));
+
+        // The supervisor spawns through a shell, so every argument must be quoted
+        return ['bwrap', args.map(arg => this.quote(arg))];
+    }
+
+    private quote(value: string): string {
+        return `'${value.replace(/'/g, `'\\''`)}'`;
+    }
+
+    private getStatePath(serverId: string, suffix: string): string {
+        return path.resolve(this.stateDirectory, `${serverId}.${suffix}`);
+    }
+
+    private async readExitStatus(serverId: string): Promise<{ code: number | null; signal: NodeJS.Signals | null } | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.getStatePath(serverId, 'exit.json'), 'utf-8'));
+        } catch {
+            return null;
+        }
+    }
+}
@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { ServerMount } from './ServerRuntime.js';
+
+export interface AllowedMount {
+    source: string;          // Host directory that may be mounted, including everything below it
+    readOnly?: boolean;      // Mount read-only whatever the panel asks for
+}
+
+export interface RejectedMount {
+    source: string;
+    target: string;
+    reason: string;
+}
+
+export interface MountResult {
+    mounts: ServerMount[];   // Validated mounts with resolved sources
+    rejected: RejectedMount[];
+}
+
+/**
+ * Links host directories into server directories. Only sources under the
+ * node's allowlist in config.json are accepted and targets must stay inside
+ * the server directory. Applied mounts are persisted so the file manager can
+ * keep enforcing read-only mounts across daemon restarts.
+ */
+export class MountManager {
+    private storePath: string;
+    private dataDirectory: string;
+    private allowed: AllowedMount[];
+    private applied: Map<string, ServerMount[]> = new Map();
+
+    constructor(stateDirectory: string, dataDirectory: string, allowed: AllowedMount[]) {
+        this.storePath = path.join(stateDirectory, 'mounts.json');
+        this.dataDirectory = path.resolve(dataDirectory);
+        this.allowed = allowed;
+    }
+
+    async load(): Promise<void> {
+        // Compare against real paths so a symlinked allowlist entry still matches
+        const allowed: AllowedMount[] = [];
+        for (const entry of this.allowed) {
+            if (!path.isAbsolute(entry.source)) {
+                console.error(`[Mount] Ignoring allowlist entry ${entry.source}: not an absolute path`);
+                continue;
+            }
+            const source = await fs.realpath(entry.source).catch(() => path.resolve(entry.source));
+            allowed.push({ source, readOnly: entry.readOnly });
+        }
+        this.allowed = allowed;
+        this.dataDirectory = await fs.realpath(this.dataDirectory).catch(() => this.dataDirectory);
+
+        try {
+            const stored: Record<string, ServerMount[]> = JSON.parse(await fs.readFile(this.storePath, 'utf-8'));
+            for (const [serverId, mounts] of Object.entries(stored)) {
+                this.applied.set(serverId, mounts);
+            }
+        } catch {
+            // Nothing mounted yet
+        }
+    }
+
+    /**
+     * Replace the server's mounts with `requested`. Links of mounts that are no
+     * longer requested are removed; rejected mounts are left out.
+     */
+    async apply(serverId: string, serverPath: string, requested: ServerMount[] = []): Promise<MountResult> {
+        const root = await fs.realpath(serverPath);
+        const mounts: ServerMount[] = [];
+        const rejected: RejectedMount[] = [];
+
+        // Drop links left by earlier mounts first, so a target can be reused by another mount
+        for (const previous of this.applied.get(serverId) || []) {
+            await this.unlink(root, previous.target);
+        }
+
+        for (const mount of requested) {
+            const source = typeof mount?.source === 'string' ? mount.source : '';
+            const target = typeof mount?.target === 'string' ? mount.target : '';
+            try {
+                if (mounts.some(existing => existing.target === this.normalizeTarget(target))) {
+                    throw new Error('another mount already uses this target');
+                }
+                mounts.push(await this.link(root, source, target, !!mount.readOnly));
+            } catch (error) {
+                rejected.push({ source, target, reason: error instanceof Error ? error.message : 'Unknown error' });
+            }
+        }
+
+        if (mounts.length > 0) {
+            this.applied.set(serverId, mounts);
+        } else {
+            this.applied.delete(serverId);
+        }
+        await this.persist();
+
+        return { mounts, rejected };
+    }
+
+    // The read-only mount a path in the server directory belongs to, if any
+    getReadOnlyMount(serverId: string, serverPath: string, fullPath: string): ServerMount | undefined {
+        return (this.applied.get(serverId) || []).find((mount) => {
+            if (!mount.readOnly) {
+                return false;
+            }
+            const mountPath = path.resolve(serverPath, mount.target);
+            return fullPath === mountPath || fullPath.startsWith(mountPath + path.sep);
+        });
+    }
+
+    // A mount whose link is the path or lies below it; moving or deleting the path would carry the link along
+    getMountWithin(serverId: string, serverPath: string, fullPath: string): ServerMount | undefined {
+        return (this.applied.get(serverId) || []).find((mount) => {
+            const mountPath = path.resolve(serverPath, mount.target);
+            return mountPath === fullPath || mountPath.startsWith(fullPath + path.sep);
+        });
+    }
+
+    async removeServer(serverId: string): Promise<void> {
+        if (this.applied.delete(serverId)) {
+            await this.persist();
+        }
+    }
+
+    private async link(root: string, source: string, target: string, readOnly: boolean): Promise<ServerMount> {
+        if (!path.isAbsolute(source)) {
+            throw new Error('source must be an absolute path');
+        }
+
+        let realSource: string;
+        try {
+            realSource = await fs.realpath(source);
+        } catch {
+            throw new Error('source does not exist on this node');
+        }
+
+        // Other servers' files are never mountable, even under an allowlisted parent
+        if (this.isInside(realSource, this.dataDirectory) || this.isInside(this.dataDirectory, realSource)) {
+            throw new Error('source overlaps the server data directory');
+        }
+
+        const allowed = this.allowed.find(entry => this.isInside(realSource, entry.source));
+        if (!allowed) {
+            throw new Error('source is not in the mount allowlist of this node');
+        }
+
+        const relativeTarget = this.normalizeTarget(target);
+        const targetPath = path.resolve(root, relativeTarget);
+        if (!relativeTarget || !this.isInside(targetPath, root) || targetPath === root) {
+            throw new Error('target must be a path inside the server directory');
+        }
+
+        // A parent may itself be a link that leads out of the server directory
+        let ancestor = path.dirname(targetPath);
+        while (!(await fs.lstat(ancestor).catch(() => null))) {
+            ancestor = path.dirname(ancestor);
+        }
+        if (!this.isInside(await fs.realpath(ancestor), root)) {
+            throw new Error('target must be a path inside the server directory');
+        }
+        await fs.mkdir(path.dirname(targetPath), { recursive: true });
+
+        // Never delete server files to make room for a mount
+        const existing = await fs.lstat(targetPath).catch(() => null);
+        if (existing?.isSymbolicLink()) {
+            await fs.unlink(targetPath);
+        } else if (existing) {
+            throw new Error('target already exists in the server directory');
+        }
+
+        await fs.symlink(realSource, targetPath);
+        console.log(`[Mount] Linked ${realSource} to ${targetPath}${allowed.readOnly || readOnly ? ' (read-only)' : ''}`);
+
+        return { source: realSource, target: relativeTarget, readOnly: readOnly || !!allowed.readOnly };
+    }
+
+    private async unlink(root: string, target: string): Promise<void> {
+        const targetPath = path.resolve(root, target);
+        if (!this.isInside(targetPath, root)) {
+            return;
+        }
+        const stats = await fs.lstat(targetPath).catch(() => null);
+        if (stats?.isSymbolicLink()) {
+            await fs.unlink(targetPath);
+        }
+    }
+
+    private normalizeTarget(target: string): string {
+        return path.normalize(target.replace(/^\/+/, '')).replace(/\/+$/, '').replace(/^\.$/, '');
+    }
+
+    private isInside(child: string, parent: string): boolean {
+        return child === parent || child.startsWith(parent.endsWith(path.sep) ? parent : parent + path.sep);
+    }
+
+    private async persist(): Promise<void> {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        await fs.writeFile(this.storePath, JSON.stringify(Object.fromEntries(this.applied), null, 2), { mode: 0o600 });
+    }
+}
@@ -0,0 +1,390 @@
+import fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import path from 'path';
+import net from 'net';
+import dgram from 'dgram';
+import { execFile } from 'child_process';
+
+export type PreflightCheckName = 'server_directory' | 'port' | 'executable' | 'runtime' | 'disk' | 'eula';
+export type PreflightStatus = 'pass' | 'warn' | 'fail';
+
+export interface PreflightResult {
+    check: PreflightCheckName;
+    status: PreflightStatus;
+    message: string;
+}
+
+export interface PreflightReport {
+    passed: boolean;          // No check failed; warnings don't block a start
+    results: PreflightResult[];
+}
+
+export interface PreflightContext {
+    serverPath: string;
+    command: string;          // Rendered startup command
+    runtime: string;          // Binaries only need to exist on the host for host servers
+    allocations?: Array<{ ip: string; port: number }>; // Primary allocation first
+    // The server on this node that already uses the port, if any
+    getAllocationOwner?: (ip: string, port: number) => string | undefined;
+    javaVersion?: number;     // Java major version the server needs
+}
+
+export interface PreflightOptions {
+    minFreeDisk: number;      // Bytes of free disk below which a start is refused
+}
+
+export class PreflightError extends Error {
+    report: PreflightReport;
+
+    constructor(report: PreflightReport) {
+        const failures = report.results.filter(result => result.status === 'fail').map(result => result.message);
+        super(`Pre-flight checks failed: ${failures.join('; ')}`);
+        this.name = 'PreflightError';
+        this.report = report;
+    }
+}
+
+// Free space below this share of the disk is worth a warning even above the hard minimum
+const LOW_DISK_RATIO = 0.05;
+const JAVA_VERSION_TIMEOUT_MS = 10000;
+
+// A command starting with one of these can't be reasoned about without running the shell
+const SHELL_BUILTINS = ['cd', 'export', 'source', '.', 'eval', 'set', 'ulimit', 'umask', 'if', 'for', 'while', 'case', '[', 'test'];
+
+/**
+ * Checks the things that most often make a start fail right away, so the panel
+ * gets an actionable report instead of an instant OFFLINE.
+ */
+export class PreflightChecker {
+    private options: PreflightOptions;
+
+    constructor(options: PreflightOptions) {
+        this.options = options;
+    }
+
+    async run(context: PreflightContext): Promise<PreflightReport> {
+        const results: PreflightResult[] = [];
+
+        const directory = await this.checkServerDirectory(context.serverPath);
+        results.push(directory);
+
+        const seen = new Set<number>();
+        for (const { ip, port } of context.allocations || []) {
+            if (seen.has(port)) {
+                results.push({ check: 'port', status: 'fail', message: `Port ${port} is allocated to this server more than once` });
+                continue;
+            }
+            seen.add(port);
+            results.push(await this.checkPort(ip || '0.0.0.0', port, context.getAllocationOwner));
+        }
+
+        // Nothing in the directory can be checked when it isn't there
+        if (directory.status !== 'fail') {
+            const words = this.parseCommand(context.command);
+            results.push(...await this.checkExecutable(context, words));
+            results.push(await this.checkDisk(context.serverPath));
+
+            const eula = await this.checkEula(context.serverPath);
+            if (eula) {
+                results.push(eula);
+            }
+        }
+
+        return {
+            passed: !results.some(result => result.status === 'fail'),
+            results,
+        };
+    }
+
+    private async checkServerDirectory(serverPath: string): Promise<PreflightResult> {
+        let entries: string[];
+        try {
+            entries = await fs.readdir(serverPath);
+        } catch {
+            return {
+                check: 'server_directory',
+                status: 'fail',
+                message: 'Server directory does not exist, the installation probably failed. Reinstall the server.',
+            };
+        }
+
+        if (entries.length === 0) {
+            return {
+                check: 'server_directory',
+                status: 'warn',
+                message: 'Server directory is empty, the installation may not have completed',
+            };
+        }
+        return { check: 'server_directory', status: 'pass', message: 'Server directory exists' };
+    }
+
+    private async checkPort(
+        ip: string,
+        port: number,
+        getAllocationOwner?: (ip: string, port: number) => string | undefined
+    ): Promise<PreflightResult> {
+        const owner = getAllocationOwner?.(ip, port);
+        if (owner) {
+            return {
+                check: 'port',
+                status: 'fail',
+                message: `Port ${port} on ${ip} is allocated to server ${owner}, which is running on this node`,
+            };
+        }
+
+        const tcpError = await this.tryBind(ip, port, 'tcp');
+        if (tcpError) {
+            return { check: 'port', status: 'fail', message: this.describeBindError(tcpError, ip, port) };
+        }
+
+        // Not every game uses UDP, so a taken UDP port is only a hint
+        const udpError = await this.tryBind(ip, port, 'udp');
+        if (udpError) {
+            return {
+                check: 'port',
+                status: 'warn',
+                message: `UDP ${this.describeBindError(udpError, ip, port)}`,
+            };
+        }
+
+        return { check: 'port', status: 'pass', message: `Port ${port} on ${ip} is free` };
+    }
+
+    private tryBind(ip: string, port: number, protocol: 'tcp' | 'udp'): Promise<NodeJS.ErrnoException | null> {
+        return new Promise((resolve) => {
+            if (protocol === 'tcp') {
+                const server = net.createServer();
+                server.once('error', (error) => resolve(error));
+                server.listen({ host: ip, port, exclusive: true }, () => server.close(() => resolve(null)));
+                return;
+            }
+
+            const socket = dgram.createSocket(net.isIPv6(ip) ? 'udp6' : 'udp4');
+            socket.once('error', (error) => {
+                socket.close();
+                resolve(error);
+            });
+            socket.bind({ address: ip, port, exclusive: true }, () => socket.close(() => resolve(null)));
+        });
+    }
+
+    private describeBindError(error: NodeJS.ErrnoException, ip: string, port: number): string {
+        switch (error.code) {
+            case 'EADDRINUSE':
+                return `Port ${port} on ${ip} is already in use by another process`;
+            case 'EADDRNOTAVAIL':
+                return `IP ${ip} is not assigned to this node, fix the server's allocation`;
+            case 'EACCES':
+                return `Port ${port} is privileged and can't be bound by the server`;
+            default:
+                return `Port ${port} on ${ip} can't be bound: ${error.message}`;
+        }
+    }
+
+    private async checkExecutable(context: PreflightContext, words: string[]): Promise<PreflightResult[]> {
+        const [program] = words;
+        // Paths built from shell variables are only known once the shell runs
+        if (!program || SHELL_BUILTINS.includes(program) || program.includes('$')) {
+            return [];
+        }
+
+        const results: PreflightResult[] = [];
+        const onHost = context.runtime === 'host';
+
+        if (program.includes('/')) {
+            // Absolute paths in a container refer to the image, not this node
+            if (onHost || !path.isAbsolute(program)) {
+                const file = await this.checkFile(context.serverPath, program, true);
+                results.push(file);
+                if (onHost && file.status === 'pass' && path.basename(program) === 'java') {
+                    results.push(await this.checkJava(path.resolve(context.serverPath, program), context.javaVersion));
+                }
+            }
+        } else if (onHost) {
+            const resolved = await this.findInPath(program);
+            if (!resolved) {
+                results.push({
+                    check: 'runtime',
+                    status: 'fail',
+                    message: `${program} was not found on this node, install it or change the startup command`,
+                });
+            } else if (path.basename(program) === 'java') {
+                results.push(await this.checkJava(resolved, context.javaVersion));
+            } else {
+                results.push({ check: 'runtime', status: 'pass', message: `${program} found at ${resolved}` });
+            }
+        }
+
+        const jar = words[words.indexOf('-jar') + 1];
+        if (words.includes('-jar') && jar && !jar.includes('$') && (onHost || !path.isAbsolute(jar))) {
+            results.push(await this.checkFile(context.serverPath, jar, false));
+        }
+
+        return results;
+    }
+
+    private async checkFile(serverPath: string, file: string, executable: boolean): Promise<PreflightResult> {
+        const filePath = path.resolve(serverPath, file);
+        try {
+            await fs.access(filePath, executable ? fsConstants.X_OK : fsConstants.R_OK);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return {
+                    check: 'executable',
+                    status: 'fail',
+                    message: `${file} does not exist in the server directory, check the startup variables or reinstall the server`,
+                };
+            }
+            return {
+                check: 'executable',
+                status: 'fail',
+                message: executable ? `${file} is not executable, run chmod +x on it` : `${file} is not readable`,
+            };
+        }
+        return { check: 'executable', status: 'pass', message: `${file} exists` };
+    }
+
+    private async findInPath(program: string): Promise<string | null> {
+        const directories = (process.env.PATH || '/usr/local/bin:/usr/bin:/bin').split(':').filter(Boolean);
+        for (const directory of directories) {
+            const candidate = path.join(directory, program);
+            try {
+                await fs.access(candidate, fsConstants.X_OK);
+                return candidate;
+            } catch { }
+        }
+        return null;
+    }
+
+    private async checkJava(javaPath: string, required?: number): Promise<PreflightResult> {
+        const installed = await this.getJavaVersion(javaPath);
+        if (installed === null) {
+            return { check: 'runtime', status: 'fail', message: `${javaPath} did not report a Java version, the installation may be broken` };
+        }
+
+        if (required && installed < required) {
+            return {
+                check: 'runtime',
+                status: 'fail',
+                message: `Java ${installed} is installed but this server needs Java ${required}, install it or point the startup command at it`,
+            };
+        }
+        if (required && installed > required) {
+            return {
+                check: 'runtime',
+                status: 'warn',
+                message: `Java ${installed} is newer than the Java ${required} this server expects, it may not start`,
+            };
+        }
+        return { check: 'runtime', status: 'pass', message: `Java ${installed} found` };
+    }
+
+    // "1.8.0_392" is Java 8, "17.0.9" and "21" are 17 and 21
+    private getJavaVersion(javaPath: string): Promise<number | null> {
+        return new Promise((resolve) => {
+            execFile(javaPath, ['-version'], { timeout: JAVA_VERSION_TIMEOUT_MS }, (error, stdout, stderr) => {
+                const match = `${stderr}${stdout}`.match(/version "(\d+)(?:\.(\d+))?/);
+                if (!match) {
+                    resolve(null);
+                    return;
+                }
+                const major = Number(match[1]);
+                resolve(major === 1 && match[2] ? Number(match[2]) : major);
+            });
+        });
+    }
+
+    private async checkDisk(serverPath: string): Promise<PreflightResult> {
+        let free: number;
+        let total: number;
+        try {
+            const stats = await fs.statfs(serverPath);
+            free = stats.bavail * stats.bsize;
+            total = stats.blocks * stats.bsize;
+        } catch (error) {
+            return {
+                check: 'disk',
+                status: 'warn',
+                message: `Could not check free disk space: ${error instanceof Error ? error.message : 'Unknown error'}`,
+            };
+        }
+
+        const freeMb = Math.round(free / (1024 * 1024));
+        if (free < this.options.minFreeDisk) {
+            return {
+                check: 'disk',
+                status: 'fail',
+                message: `Only ${freeMb} MB of disk space left on this node, free up space before starting`,
+            };
+        }
+        if (total > 0 && free / total < LOW_DISK_RATIO) {
+            return { check: 'disk', status: 'warn', message: `Disk is nearly full, ${freeMb} MB left` };
+        }
+        return { check: 'disk', status: 'pass', message: `${freeMb} MB of disk space free` };
+    }
+
+    // Minecraft writes eula.txt on its first start and stops until it's accepted
+    private async checkEula(serverPath: string): Promise<PreflightResult | null> {
+        let content: string;
+        try {
+            content = await fs.readFile(path.join(serverPath, 'eula.txt'), 'utf-8');
+        } catch {
+            return null;
+        }
+
+        if (/^\s*eula\s*=\s*true\s*$/im.test(content)) {
+            return { check: 'eula', status: 'pass', message: 'EULA accepted' };
+        }
+        return {
+            check: 'eula',
+            status: 'fail',
+            message: 'The Minecraft EULA has not been accepted, set eula=true in eula.txt',
+        };
+    }
+
+    // Words of the first command, unquoted; leading env assignments and exec are skipped
+    private parseCommand(command: string): string[] {
+        const words: string[] = [];
+        let current = '';
+        let quote: string | null = null;
+        let inWord = false;
+
+        for (let i = 0; i < command.length; i++) {
+            const char = command[i];
+            if (quote) {
+                if (char === quote) {
+                    quote = null;
+                } else if (char === '\\' && quote === '"' && i + 1 < command.length) {
+                    current += command[++i];
+                } else {
+                    current += char;
+                }
+            } else if (char === '"' || char === "'") {
+                quote = char;
+                inWord = true;
+            } else if (char === '\\' && i + 1 < command.length) {
+                current += command[++i];
+                inWord = true;
+            } else if (/\s/.test(char)) {
+                if (inWord) {
+                    words.push(current);
+                }
+                current = '';
+                inWord = false;
+            } else if (';&|<>'.includes(char)) {
+                break;
+            } else {
+                current += char;
+                inWord = true;
+            }
+        }
+        if (inWord && !quote) {
+            words.push(current);
+        }
+
+        while (words.length > 0 && (/^[A-Za-z_][A-Za-z0-9_]*=/.test(words[0]) || words[0] === 'exec')) {
+            words.shift();
+        }
+        return words;
+    }
+}
@@ -1,44 +1,260 @@
-import { spawn, ChildProcess } from 'child_process';
 import fs from 'fs/promises';
 import path from 'path';
-import pidusage from 'pidusage';
+import os from 'os';
+import { Allocation, ServerHandle, ServerMount, ServerRuntime } from './ServerRuntime.js';
+import { ServerIdentity, ServerUserManager } from './ServerUserManager.js';
+import { MountManager, RejectedMount } from './MountManager.js';
+import { ProcessState } from './ServerStateMachine.js';
+import { ConfigFileDefinition, ConfigFilePatcher } from '../config/ConfigFilePatcher.js';
+import { RconConfig, RconManager } from '../rcon/RconManager.js';
+import { RconErrorCode } from '../rcon/RconClient.js';
 
 interface ServerProcess {
-    process: ChildProcess;
+    process: ServerHandle;
     serverId: string;
+    runtime: ServerRuntime;
+    runtimeState: Record<string, any>; // Runtime bookkeeping (supervisor pid, container id, ...)
     startedAt: Date;
-    status: 'STARTING' | 'RUNNING' | 'STOPPING' | 'OFFLINE';
+    status: ProcessState;
     config: StartConfig;
+    stopRequested: boolean;  // Set by stopServer/killServer so the exit isn't treated as a crash
+    recentOutput: string[];  // Tail of the console, reported with crash events
+    donePatterns: RegExp[];  // Output that marks the end of startup
+    startupTime?: number;    // Ms between spawn and RUNNING
+    startupTimer?: NodeJS.Timeout;
+    peakMemory: number;      // Highest memory use seen by the stats loop, in MB
+}
+
+interface ServerStats {
+    cpu: number;
+    memory: number;
+    memoryLimit?: number;    // MB, reported when the runtime enforces a limit
+    uptime: number;          // Seconds since spawn
+    startupTime?: number;    // Seconds it took to reach RUNNING
+    allocations?: AllocationStatus[];
+}
+
+interface AllocationStatus extends Allocation {
+    primary: boolean;
+    listening: Array<'tcp' | 'udp'>; // Protocols the server is actually listening with on this allocation
+}
+
+type RestartMode = 'never' | 'on-crash' | 'always';
+
+interface RestartPolicy {
+    mode: RestartMode;
+    maxRetries: number;
+    backoff: number;         // Initial delay in ms, doubled after every attempt
+    maxBackoff: number;      // Upper bound for the delay in ms
+}
+
+export interface CrashInfo {
+    reason: 'oom' | 'signal' | 'exit-code';
+    exitCode: number | null;
+    signal: string | null;
+    uptime: number;          // Seconds the process was alive
+    startedAt: string;
+    peakMemory: number;      // MB, highest memory use sampled while the server started and ran
+    lastLines: string[];
+    duringStartup: boolean;
+    willRestart: boolean;
+    restartAttempt: number;
+    maxRetries: number;
+}
+
+interface StopStep {
+    type: 'command' | 'signal';
+    value: string;           // Console command ("stop", "end") or signal ("SIGTERM", "^C")
+}
+
+// Panel shorthand: "stop", "^C", a single step, or a sequence of steps
+type StopDefinition = string | StopStep | StopStep[];
+
+export type OutputStream = 'stdout' | 'stderr' | 'daemon';
+
+export class CommandError extends Error {
+    code: 'NOT_RUNNING' | 'STDIN_UNAVAILABLE' | RconErrorCode;
+
+    constructor(code: CommandError['code'], message: string) {
+        super(message);
+        this.name = 'CommandError';
+        this.code = code;
+    }
+}
+
+export interface CommandResult {
+    channel: 'stdin' | 'rcon';
+    response?: string;       // What the server answered, RCON only
 }
 
 interface StartConfig {
     command: string;
     env: Record<string, string>;
-    memory: number;
-    cpu: number;
+    memory: number;          // MB, 0 = unlimited
+    swap?: number;           // MB, 0 = no swap, -1 = unlimited
+    cpu: number;             // Percent of a single core, 0 = unlimited
     port?: number;           // Allocated port
     ip?: string;             // Allocated IP
-    mounts?: Array<{ source: string; target: string; readOnly: boolean }>;
-    onOutput: (line: string) => void;
+    allocations?: Allocation[]; // Additional allocations (query, RCON, voice, ...)
+    mounts?: ServerMount[];
+    restartPolicy?: Partial<RestartPolicy>;
+    stop?: StopDefinition;
+    stopTimeout?: number;    // Seconds to wait after each stop step before escalating
+    done?: string | string[]; // Regexes matched against output to detect a finished startup
+    startupTimeout?: number; // Seconds to wait for a done pattern before giving up
+    runtime?: string;        // Runtime name ("host", "docker"), defaults to the node's default
+    image?: string;          // Container image for container runtimes
+    configFiles?: ConfigFileDefinition[]; // Egg config files to rewrite before each start
+    rcon?: RconConfig;       // Send console commands over RCON instead of stdin
+    // stream is 'daemon' (the default) for messages the daemon itself writes to the console
+    onOutput: (line: string, stream?: OutputStream) => void;
     onStatusChange: (status: string) => void;
+    onCrash?: (info: CrashInfo) => void;
+    onStartupFailed?: (reason: string) => void;
+    onMountsRejected?: (rejected: RejectedMount[]) => void;
+}
+
+export type ServerCallbacks = Pick<StartConfig, 'onOutput' | 'onStatusChange' | 'onCrash' | 'onStartupFailed' | 'onMountsRejected'>;
+
+// Written to the state directory so a restarted daemon can reattach to the server
+interface PersistedServer {
+    serverId: string;
+    runtime: string;
+    runtimeState: Record<string, any>;
+    startedAt: string;
+    status: ServerProcess['status'];
+    startupTime?: number;
+    config: Omit<StartConfig, keyof ServerCallbacks>;
+}
+
+const DEFAULT_RESTART_POLICY: RestartPolicy = {
+    mode: 'never',
+    maxRetries: 3,
+    backoff: 5000,
+    maxBackoff: 5 * 60 * 1000,
+};
+
+// A server that stayed up this long before crashing gets a fresh set of retries
+const STABLE_UPTIME_MS = 5 * 60 * 1000;
+
+const DEFAULT_STOP_TIMEOUT = 30;
+
+const DEFAULT_STARTUP_TIMEOUT = 300;
+
+// Eggs without done patterns are considered started after this delay
+const STARTUP_FALLBACK_DELAY_MS = 3000;
+
+// Number of console lines kept for crash reports
+const CRASH_TAIL_LINES = 50;
+
+// An unterminated line (e.g. a prompt) is passed on once output has been quiet this long
+const PARTIAL_LINE_FLUSH_MS = 250;
+
+/**
+ * Splits a stream of output chunks into lines, holding back a trailing
+ * partial line until its newline arrives.
+ */
+class LineBuffer {
+    private partial = '';
+    private flushTimer?: NodeJS.Timeout;
+    private onLine: (line: string) => void;
+
+    constructor(onLine: (line: string) => void) {
+        this.onLine = onLine;
+    }
+
+    write(data: string): void {
+        clearTimeout(this.flushTimer);
+
+        const lines = (this.partial + data).split('\n');
+        this.partial = lines.pop()!;
+        for (const line of lines) {
+            this.emit(line);
+        }
+
+        if (this.partial) {
+            this.flushTimer = setTimeout(() => this.flush(), PARTIAL_LINE_FLUSH_MS);
+        }
+    }
+
+    flush(): void {
+        clearTimeout(this.flushTimer);
+        const line = this.partial;
+        this.partial = '';
+        this.emit(line);
+    }
+
+    private emit(line: string): void {
+        const trimmed = line.endsWith('\r') ? line.slice(0, -1) : line;
+        if (trimmed.trim()) {
+            this.onLine(trimmed);
+        }
+    }
 }
 
 export class ProcessManager {
     private dataDirectory: string;
+    private stateDirectory: string;
+    private runtimes: Map<string, ServerRuntime> = new Map();
+    private defaultRuntime: string;
     private servers: Map<string, ServerProcess> = new Map();
+    private restartAttempts: Map<string, number> = new Map();
+    private restartTimers: Map<string, NodeJS.Timeout> = new Map();
+    // Last start configuration per server, so the daemon can start servers on its own (schedules)
+    private lastConfigs: Map<string, StartConfig> = new Map();
+    private exitCleanups: Map<string, Promise<void>> = new Map();
+    private configPatcher = new ConfigFilePatcher();
+    private rcon = new RconManager();
+    private users?: ServerUserManager;
+    private mounts?: MountManager;
 
-    constructor(dataDirectory: string) {
+    constructor(
+        dataDirectory: string,
+        stateDirectory: string,
+        runtimes: ServerRuntime[],
+        defaultRuntime: string = 'host',
+        users?: ServerUserManager,
+        mounts?: MountManager
+    ) {
         this.dataDirectory = dataDirectory;
+        this.stateDirectory = stateDirectory;
+        for (const runtime of runtimes) {
+            this.runtimes.set(runtime.name, runtime);
+        }
+        this.defaultRuntime = defaultRuntime;
+        this.users = users;
+        this.mounts = mounts;
     }
 
     async createServerDirectory(serverId: string): Promise<void> {
         const serverPath = this.getServerPath(serverId);
         await fs.mkdir(serverPath, { recursive: true });
+        await this.applyServerOwnership(serverId);
     }
 
     async deleteServerDirectory(serverId: string): Promise<void> {
         const serverPath = this.getServerPath(serverId);
         await fs.rm(serverPath, { recursive: true, force: true });
+        for (const runtime of this.runtimes.values()) {
+            await runtime.removeServer(serverId);
+        }
+        await this.users?.release(serverId);
+        await this.mounts?.removeServer(serverId);
+        this.lastConfigs.delete(serverId);
+    }
+
+    /**
+     * Give the server directory to the server's own user. Files written by the
+     * daemon (installs, uploads, restores) are owned by root until this runs.
+     */
+    async applyServerOwnership(serverId: string): Promise<ServerIdentity | undefined> {
+        if (!this.users) {
+            return undefined;
+        }
+
+        const identity = await this.users.getIdentity(serverId);
+        await this.users.applyOwnership(this.getServerPath(serverId), identity);
+        return identity;
     }
 
     getServerPath(serverId: string): string {
@@ -46,6 +262,35 @@ export class ProcessManager {
     }
 
     async startServer(serverId: string, config: StartConfig): Promise<void> {
+        // A manual start replaces any pending automatic restart and resets the retry budget
+        this.cancelPendingRestart(serverId);
+        this.restartAttempts.delete(serverId);
+
+        await this.spawnServer(serverId, config);
+    }
+
+    /**
+     * Start a server with the configuration it was last started with. Used when
+     * the daemon acts without the panel, which normally supplies the config.
+     */
+    async startServerWithLastConfig(serverId: string): Promise<void> {
+        const config = this.lastConfigs.get(serverId);
+        if (!config) {
+            throw new Error('No start configuration known for this server, start it from the panel first');
+        }
+        await this.startServer(serverId, config);
+    }
+
+    async restartServer(serverId: string): Promise<void> {
+        const config = this.servers.get(serverId)?.config || this.lastConfigs.get(serverId);
+        if (!config) {
+            throw new Error('No start configuration known for this server, start it from the panel first');
+        }
+        await this.stopServer(serverId);
+        await this.startServer(serverId, config);
+    }
+
+    private async spawnServer(serverId: string, config: StartConfig): Promise<void> {
         // Check if already running
         if (this.servers.has(serverId)) {
             const existing = this.servers.get(serverId)!;
@@ -54,165 +299,633 @@ export class ProcessManager {
             }
         }
 
+        await this.exitCleanups.get(serverId);
+
         const serverPath = this.getServerPath(serverId);
 
         // Ensure server directory exists
         await fs.mkdir(serverPath, { recursive: true });
 
-        // Update server.properties with correct port/IP before starting
-        if (config.port || config.ip) {
-            await this.updateServerProperties(serverPath, config.port, config.ip);
-        }
+        await this.patchConfigFiles(serverPath, config);
+        await this.configureRcon(serverPath, config);
 
-        // Setup mounts (symlinks)
-        if (config.mounts) {
-            for (const mount of config.mounts) {
-                try {
-                    const targetPath = path.join(serverPath, mount.target);
-                    // Remove existing symlink or directory if it exists to avoid conflicts
-                    try {
-                        await fs.rm(targetPath, { recursive: true, force: true });
-                    } catch { }
-
-                    // Ensure parent directory exists
-                    await fs.mkdir(path.dirname(targetPath), { recursive: true });
-
-                    // Create symlink
-                    await fs.symlink(mount.source, targetPath);
-                    console.log(`[Mount] Linked ${mount.source} to ${targetPath}`);
-                } catch (error) {
-                    console.error(`[Mount] Failed to mount ${mount.source}:`, error);
-                    config.onOutput(`[DAEMON] Failed to mount ${mount.source}: ${error instanceof Error ? error.message : 'Unknown error'}`);
-                }
-            }
-        }
+        const runtime = this.getRuntime(config.runtime);
+        const mounts = await this.applyMounts(serverId, serverPath, runtime, config);
 
-        // Parse command
-        const [cmd, ...args] = this.parseCommand(config.command);
+        const user = await this.applyServerOwnership(serverId);
 
-        // Merge environment
-        const env = {
-            ...process.env,
-            ...config.env,
-            HOME: serverPath,
-        };
+        this.lastConfigs.set(serverId, config);
 
-        console.log(`Starting server ${serverId}: ${cmd} ${args.join(' ')}`);
+        console.log(`Starting server ${serverId} (${runtime.name}): ${config.command}`);
         config.onStatusChange('STARTING');
 
-        // Spawn the process
-        const childProcess = spawn(cmd, args, {
-            cwd: serverPath,
-            env,
-            stdio: ['pipe', 'pipe', 'pipe'],
-            shell: true,
-        });
+        let started;
+        try {
+            started = await runtime.start({
+                serverId,
+                // The command runs through a shell, which handles quoting in the startup template
+                command: config.command,
+                args: [],
+                cwd: serverPath,
+                env: config.env,
+                memory: config.memory,
+                swap: config.swap ?? 0,
+                cpu: config.cpu,
+                image: config.image,
+                ip: config.ip,
+                port: config.port,
+                allocations: config.allocations,
+                user,
+                mounts,
+            });
+        } catch (error) {
+            config.onStatusChange('OFFLINE');
+            throw error;
+        }
 
         const serverProcess: ServerProcess = {
-            process: childProcess,
+            process: started.handle,
             serverId,
-            startedAt: new Date(),
+            runtime,
+            runtimeState: started.state,
+            startedAt: started.handle.startedAt || new Date(),
             status: 'STARTING',
             config,
+            stopRequested: false,
+            recentOutput: [],
+            donePatterns: this.compileDonePatterns(config.done),
+            peakMemory: 0,
         };
 
         this.servers.set(serverId, serverProcess);
+        await this.persistState(serverProcess);
+        this.attachProcess(serverProcess);
+    }
+
+    // Point the egg's config files at this server's allocation and variables
+    private async patchConfigFiles(serverPath: string, config: StartConfig): Promise<void> {
+        const files = config.configFiles ?? this.getLegacyConfigFiles(config);
+        if (files.length === 0) {
+            return;
+        }
 
-        // Handle stdout
-        childProcess.stdout?.on('data', (data: Buffer) => {
-            const lines = data.toString().split('\n').filter(l => l.trim());
-            for (const line of lines) {
-                config.onOutput(line);
+        const variables: Record<string, string> = { ...config.env };
+        if (config.port) {
+            variables.SERVER_PORT = config.port.toString();
+        }
+        if (config.ip) {
+            variables.SERVER_IP = config.ip;
+        }
+
+        const results = await this.configPatcher.apply(serverPath, files, variables);
+        for (const result of results) {
+            if (result.updated.length > 0) {
+                console.log(`[Config] Updated ${result.file}: ${result.updated.join(', ')}`);
             }
-        });
+            for (const error of result.errors) {
+                console.error(`[Config] ${result.file}: ${error}`);
+                config.onOutput(`[DAEMON] Failed to update ${result.file}: ${error}`);
+            }
+        }
+    }
+
+    private async configureRcon(serverPath: string, config: StartConfig): Promise<void> {
+        if (!config.rcon) {
+            return;
+        }
+        const results = await this.rcon.configure(serverPath, config.rcon);
+        for (const result of results) {
+            for (const error of result.errors) {
+                console.error(`[RCON] ${result.file}: ${error}`);
+                config.onOutput(`[DAEMON] Failed to enable RCON in ${result.file}: ${error}`);
+            }
+        }
+    }
+
+    // Eggs that don't declare config files yet still get server.properties pointed at their allocation
+    private getLegacyConfigFiles(config: StartConfig): ConfigFileDefinition[] {
+        const find: Record<string, string> = {};
+        if (config.port) {
+            find['server-port'] = '{{SERVER_PORT}}';
+            find['query.port'] = '{{SERVER_PORT}}';
+        }
+        if (config.ip) {
+            find['server-ip'] = '{{SERVER_IP}}';
+        }
+        return Object.keys(find).length > 0 ? [{ file: 'server.properties', parser: 'properties', find }] : [];
+    }
 
-        // Handle stderr
-        childProcess.stderr?.on('data', (data: Buffer) => {
-            const lines = data.toString().split('\n').filter(l => l.trim());
-            for (const line of lines) {
-                config.onOutput(`[ERROR] ${line}`);
+    private getRuntime(name?: string): ServerRuntime {
+        const runtime = this.runtimes.get(name || this.defaultRuntime);
+        if (!runtime) {
+            throw new Error(`Runtime "${name || this.defaultRuntime}" is not available on this node`);
+        }
+        return runtime;
+    }
+
+    // Link the allowlisted mounts into the server directory and report the ones that were refused
+    private async applyMounts(serverId: string, serverPath: string, runtime: ServerRuntime, config: StartConfig): Promise<ServerMount[]> {
+        if (!this.mounts) {
+            if (config.mounts?.length) {
+                config.onOutput('[DAEMON] Mounts are not enabled on this node, ignoring them');
             }
+            return [];
+        }
+
+        const { mounts, rejected } = await this.mounts.apply(serverId, serverPath, config.mounts);
+        for (const mount of rejected) {
+            console.error(`[Mount] Rejected ${mount.source} -> ${mount.target} for ${serverId}: ${mount.reason}`);
+            config.onOutput(`[DAEMON] Mount ${mount.source} -> ${mount.target} rejected: ${mount.reason}`);
+        }
+        if (rejected.length > 0) {
+            config.onMountsRejected?.(rejected);
+        }
+
+        if (!runtime.enforcesReadOnlyMounts && mounts.some(mount => mount.readOnly)) {
+            config.onOutput('[DAEMON] Read-only mounts are only protected from file manager writes with this runtime');
+        }
+        return mounts;
+    }
+
+    // Hook up console, startup detection and exit handling for a new or reattached process
+    private attachProcess(serverProcess: ServerProcess): void {
+        const { serverId, config, process: client } = serverProcess;
+
+        // Output arrives in arbitrary chunks; only complete lines are passed on
+        const stdout = new LineBuffer((line) => {
+            this.recordOutput(serverProcess, line);
+            config.onOutput(line, 'stdout');
+            this.checkDonePatterns(serverProcess, line);
         });
+        const stderr = new LineBuffer((line) => {
+            this.recordOutput(serverProcess, `[ERROR] ${line}`);
+            config.onOutput(line, 'stderr');
+            this.checkDonePatterns(serverProcess, line);
+        });
+
+        client.on('stdout', (data: string) => stdout.write(data));
+        client.on('stderr', (data: string) => stderr.write(data));
 
-        // Mark as running after a short delay (process started successfully)
-        setTimeout(() => {
-            if (serverProcess.status === 'STARTING' && !childProcess.killed) {
-                serverProcess.status = 'RUNNING';
-                config.onStatusChange('RUNNING');
+        if (serverProcess.status === 'STARTING') {
+            if (serverProcess.donePatterns.length === 0) {
+                // Mark as running after a short delay (process started successfully)
+                serverProcess.startupTimer = setTimeout(() => {
+                    if (!client.exited) {
+                        this.markRunning(serverProcess);
+                    }
+                }, STARTUP_FALLBACK_DELAY_MS);
+            } else {
+                const timeout = config.startupTimeout ?? DEFAULT_STARTUP_TIMEOUT;
+                serverProcess.startupTimer = setTimeout(() => {
+                    this.handleStartupTimeout(serverProcess, timeout);
+                }, timeout * 1000);
             }
-        }, 3000);
+        }
 
         // Handle process exit
-        childProcess.on('exit', (code, signal) => {
+        client.on('exit', (code: number | null, signal: NodeJS.Signals | null, error?: string) => {
             console.log(`Server ${serverId} exited with code ${code}, signal ${signal}`);
-            serverProcess.status = 'OFFLINE';
-            config.onStatusChange('OFFLINE');
-            this.servers.delete(serverId);
+            stdout.flush();
+            stderr.flush();
+            if (error) {
+                config.onOutput(`[DAEMON] Error: ${error}`);
+            }
+            this.handleExit(serverProcess, code, signal).catch((error) => {
+                console.error(`Failed to handle exit of ${serverId}:`, error);
+            });
         });
 
-        // Handle errors
-        childProcess.on('error', (error) => {
-            console.error(`Server ${serverId} error:`, error);
-            config.onOutput(`[DAEMON] Error: ${error.message}`);
-            serverProcess.status = 'OFFLINE';
-            config.onStatusChange('OFFLINE');
+        client.resume();
+    }
+
+    /**
+     * Reconnect to servers that kept running under their supervisors while the
+     * daemon was down. Servers that exited in the meantime go through the normal
+     * exit handling, so crashes are reported and restart policies still apply.
+     */
+    async reattachServers(getCallbacks: (serverId: string) => ServerCallbacks): Promise<string[]> {
+        let files: string[];
+        try {
+            files = await fs.readdir(this.stateDirectory);
+        } catch {
+            return [];
+        }
+
+        const reattached: string[] = [];
+
+        for (const file of files.filter(f => f.endsWith('.state.json'))) {
+            let state: PersistedServer;
+            try {
+                state = JSON.parse(await fs.readFile(path.join(this.stateDirectory, file), 'utf-8'));
+            } catch (error) {
+                console.error(`[State] Ignoring unreadable state file ${file}:`, error);
+                continue;
+            }
+
+            const { serverId } = state;
+            const config: StartConfig = { ...state.config, ...getCallbacks(serverId) };
+            this.lastConfigs.set(serverId, config);
+            const runtime = this.runtimes.get(state.runtime || 'host');
+            if (!runtime) {
+                console.error(`[State] Cannot reattach ${serverId}: runtime "${state.runtime}" is not available`);
+                continue;
+            }
+
+            let handle: ServerHandle;
+            try {
+                handle = await runtime.reattach(serverId, state.runtimeState);
+            } catch (error) {
+                console.error(`[State] Failed to reattach ${serverId}:`, error);
+                continue;
+            }
+
+            const serverProcess: ServerProcess = {
+                process: handle,
+                serverId,
+                runtime,
+                runtimeState: state.runtimeState,
+                startedAt: new Date(state.startedAt),
+                status: state.status,
+                config,
+                stopRequested: state.status === 'STOPPING',
+                recentOutput: [],
+                donePatterns: this.compileDonePatterns(config.done),
+                startupTime: state.startupTime,
+                peakMemory: 0,
+            };
+
+            // Servers that exited while we were gone report their exit as soon as they are attached
+            this.servers.set(serverId, serverProcess);
+            this.attachProcess(serverProcess);
+
+            if (!handle.exited) {
+                console.log(`[State] Reattached to server ${serverId} (pid ${handle.pid})`);
+                config.onOutput('[DAEMON] Reattached to running server');
+                reattached.push(serverId);
+            }
+        }
+
+        return reattached;
+    }
+
+    // Disconnect from all supervisors, leaving the game servers running
+    detachAllServers(): void {
+        for (const timer of this.restartTimers.values()) {
+            clearTimeout(timer);
+        }
+        this.restartTimers.clear();
+
+        for (const serverProcess of this.servers.values()) {
+            clearTimeout(serverProcess.startupTimer);
+            serverProcess.process.removeAllListeners();
+            serverProcess.process.detach();
+        }
+        this.servers.clear();
+    }
+
+    private getStatePath(serverId: string): string {
+        return path.resolve(this.stateDirectory, `${serverId}.state.json`);
+    }
+
+    private async persistState(serverProcess: ServerProcess): Promise<void> {
+        const { onOutput, onStatusChange, onCrash, onStartupFailed, onMountsRejected, ...config } = serverProcess.config;
+        const state: PersistedServer = {
+            serverId: serverProcess.serverId,
+            runtime: serverProcess.runtime.name,
+            runtimeState: serverProcess.runtimeState,
+            startedAt: serverProcess.startedAt.toISOString(),
+            status: serverProcess.status,
+            startupTime: serverProcess.startupTime,
+            config,
+        };
+
+        try {
+            await fs.mkdir(this.stateDirectory, { recursive: true });
+            await fs.writeFile(this.getStatePath(serverProcess.serverId), JSON.stringify(state), { mode: 0o600 });
+        } catch (error) {
+            console.error(`[State] Failed to persist state for ${serverProcess.serverId}:`, error);
+        }
+    }
+
+    private async clearState(serverProcess: ServerProcess): Promise<void> {
+        await fs.rm(this.getStatePath(serverProcess.serverId), { force: true });
+        await serverProcess.runtime.cleanup(serverProcess.serverId, serverProcess.runtimeState);
+    }
+
+    private compileDonePatterns(done?: string | string[]): RegExp[] {
+        if (!done) {
+            return [];
+        }
+
+        const patterns = Array.isArray(done) ? done : [done];
+        return patterns.filter(p => p).map((pattern) => {
+            try {
+                return new RegExp(pattern);
+            } catch {
+                // Eggs often ship plain strings like ')! For help, type "' that aren't valid regexes
+                return new RegExp(pattern.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+            }
+        });
+    }
+
+    private checkDonePatterns(serverProcess: ServerProcess, line: string): void {
+        if (serverProcess.status !== 'STARTING' || serverProcess.donePatterns.length === 0) {
+            return;
+        }
+
+        if (serverProcess.donePatterns.some(pattern => pattern.test(line))) {
+            this.markRunning(serverProcess);
+        }
+    }
+
+    private markRunning(serverProcess: ServerProcess): void {
+        if (serverProcess.status !== 'STARTING') {
+            return;
+        }
+
+        clearTimeout(serverProcess.startupTimer);
+        serverProcess.startupTime = Date.now() - serverProcess.startedAt.getTime();
+        serverProcess.status = 'RUNNING';
+        serverProcess.config.onStatusChange('RUNNING');
+        this.persistState(serverProcess);
+
+        if (serverProcess.donePatterns.length > 0) {
+            serverProcess.config.onOutput(`[DAEMON] Server started in ${(serverProcess.startupTime / 1000).toFixed(1)}s`);
+        }
+    }
+
+    private handleStartupTimeout(serverProcess: ServerProcess, timeout: number): void {
+        if (serverProcess.status !== 'STARTING') {
+            return;
+        }
+
+        const reason = `Server did not finish starting within ${timeout}s`;
+        console.log(`Server ${serverProcess.serverId} failed to start: ${reason}`);
+        serverProcess.config.onOutput(`[DAEMON] ${reason}, stopping server`);
+        serverProcess.config.onStartupFailed?.(reason);
+
+        this.stopServer(serverProcess.serverId).catch((error) => {
+            console.error(`Failed to stop ${serverProcess.serverId} after startup timeout:`, error);
+        });
+    }
+
+    private recordOutput(serverProcess: ServerProcess, line: string): void {
+        serverProcess.recentOutput.push(line);
+        if (serverProcess.recentOutput.length > CRASH_TAIL_LINES) {
+            serverProcess.recentOutput.shift();
+        }
+    }
+
+    // Decide whether an exit was a clean stop or a crash, and apply the restart policy
+    private async collectExit(serverProcess: ServerProcess, alreadyOffline: boolean): Promise<boolean> {
+        // Runtime cleanup may remove what wasOomKilled() inspects, so it runs afterwards
+        const oomKilled = alreadyOffline ? false : await serverProcess.runtime.wasOomKilled(serverProcess.serverId, serverProcess.runtimeState);
+        await this.clearState(serverProcess).catch((error) => {
+            console.error(`[State] Failed to clear state for ${serverProcess.serverId}:`, error);
+        });
+        return oomKilled;
+    }
+
+    private async handleExit(
+        serverProcess: ServerProcess,
+        code: number | null,
+        signal: NodeJS.Signals | null
+    ): Promise<void> {
+        const { serverId, config } = serverProcess;
+
+        if (this.servers.get(serverId) === serverProcess) {
             this.servers.delete(serverId);
+            this.rcon.disconnect(serverId);
+        }
+        clearTimeout(serverProcess.startupTimer);
+
+        // killServer already reported OFFLINE; 'error' and 'exit' can both fire for one process
+        const alreadyOffline = serverProcess.status === 'OFFLINE';
+        const duringStartup = serverProcess.status === 'STARTING';
+        serverProcess.status = 'OFFLINE';
+
+        // A new start of this server waits for this, or the cleanup would delete its fresh state
+        const cleanup = this.collectExit(serverProcess, alreadyOffline);
+        const pending = cleanup.then(() => { }, () => { });
+        this.exitCleanups.set(serverId, pending);
+        pending.then(() => {
+            if (this.exitCleanups.get(serverId) === pending) {
+                this.exitCleanups.delete(serverId);
+            }
         });
+        const oomKilled = await cleanup;
+
+        if (alreadyOffline) {
+            return;
+        }
+
+        const uptimeMs = Date.now() - serverProcess.startedAt.getTime();
+        const crashed = oomKilled || (!serverProcess.stopRequested && (code !== 0 || signal !== null));
+        const policy = { ...DEFAULT_RESTART_POLICY, ...config.restartPolicy };
+        const shouldRestart = !serverProcess.stopRequested &&
+            (policy.mode === 'always' || (policy.mode === 'on-crash' && crashed));
+
+        // Servers that ran for a while before dying start over with a full retry budget
+        let attempts = this.restartAttempts.get(serverId) || 0;
+        if (uptimeMs >= STABLE_UPTIME_MS) {
+            attempts = 0;
+        }
+        const willRestart = shouldRestart && attempts < policy.maxRetries;
+
+        config.onStatusChange('OFFLINE');
+
+        if (crashed) {
+            if (oomKilled) {
+                config.onOutput('[DAEMON] Server was killed for exceeding its memory limit');
+            }
+            config.onCrash?.({
+                reason: oomKilled ? 'oom' : signal ? 'signal' : 'exit-code',
+                exitCode: code,
+                signal,
+                uptime: Math.round(uptimeMs / 1000),
+                startedAt: serverProcess.startedAt.toISOString(),
+                peakMemory: serverProcess.peakMemory,
+                lastLines: [...serverProcess.recentOutput],
+                duringStartup,
+                willRestart,
+                restartAttempt: willRestart ? attempts + 1 : attempts,
+                maxRetries: policy.maxRetries,
+            });
+        }
+
+        if (!shouldRestart) {
+            this.restartAttempts.delete(serverId);
+            return;
+        }
+
+        if (!willRestart) {
+            config.onOutput(`[DAEMON] Server exited ${attempts} times in a row, giving up on automatic restarts`);
+            this.restartAttempts.delete(serverId);
+            return;
+        }
+
+        const delay = Math.min(policy.backoff * Math.pow(2, attempts), policy.maxBackoff);
+        this.restartAttempts.set(serverId, attempts + 1);
+
+        config.onOutput(`[DAEMON] Restarting server in ${Math.round(delay / 1000)}s (attempt ${attempts + 1}/${policy.maxRetries})`);
+        console.log(`Scheduling restart of ${serverId} in ${delay}ms (attempt ${attempts + 1}/${policy.maxRetries})`);
+
+        const timer = setTimeout(() => {
+            this.restartTimers.delete(serverId);
+            this.spawnServer(serverId, config).catch((error) => {
+                console.error(`Automatic restart of ${serverId} failed:`, error);
+                config.onOutput(`[DAEMON] Automatic restart failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+            });
+        }, delay);
+        this.restartTimers.set(serverId, timer);
+    }
+
+    cancelPendingRestart(serverId: string): void {
+        const timer = this.restartTimers.get(serverId);
+        if (timer) {
+            clearTimeout(timer);
+            this.restartTimers.delete(serverId);
+        }
     }
 
     async stopServer(serverId: string): Promise<void> {
+        this.cancelPendingRestart(serverId);
+        this.restartAttempts.delete(serverId);
+
         const serverProcess = this.servers.get(serverId);
         if (!serverProcess) {
             return; // Already stopped
         }
 
+        serverProcess.stopRequested = true;
         serverProcess.status = 'STOPPING';
         serverProcess.config.onStatusChange('STOPPING');
+        this.persistState(serverProcess);
 
-        // Try graceful shutdown first
-        // Send stop command if available (e.g., "stop" for Minecraft)
-        if (serverProcess.process.stdin?.writable) {
-            serverProcess.process.stdin.write('stop\n');
+        const steps = this.parseStopDefinition(serverProcess.config.stop);
+        const timeout = serverProcess.config.stopTimeout ?? DEFAULT_STOP_TIMEOUT;
+        const exited = this.waitForExit(serverProcess);
+
+        // Run each graceful step, escalating to the next one when the grace period runs out
+        for (const step of steps) {
+            if (!this.executeStopStep(serverProcess, step)) {
+                continue;
+            }
+
+            let timer: NodeJS.Timeout | undefined;
+            const stopped = await Promise.race([
+                exited.then(() => true),
+                new Promise<boolean>((resolve) => {
+                    timer = setTimeout(() => resolve(false), timeout * 1000);
+                }),
+            ]);
+            clearTimeout(timer);
+            if (stopped) {
+                return;
+            }
+
+            serverProcess.config.onOutput(`[DAEMON] Server did not stop within ${timeout}s`);
         }
 
-        // Give it time to stop gracefully
-        await new Promise<void>((resolve) => {
-            const timeout = setTimeout(() => {
-                // Force kill if still running
-                if (!serverProcess.process.killed) {
-                    console.log(`Force killing server ${serverId}`);
-                    serverProcess.process.kill('SIGKILL');
-                }
-                resolve();
-            }, 10000);
+        // Force kill if still running
+        console.log(`Force killing server ${serverId}`);
+        serverProcess.config.onOutput('[DAEMON] Sending SIGKILL to server process group');
+        serverProcess.process.kill('SIGKILL');
+        await exited;
+    }
 
-            serverProcess.process.on('exit', () => {
-                clearTimeout(timeout);
-                resolve();
-            });
+    private parseStopDefinition(stop?: StopDefinition): StopStep[] {
+        if (!stop) {
+            return [{ type: 'command', value: 'stop' }];
+        }
+
+        const steps = Array.isArray(stop) ? stop : [stop];
+        return steps.map((step) => {
+            if (typeof step !== 'string') {
+                return step;
+            }
+            // Pterodactyl-style eggs use "^C" for SIGINT and plain strings for console commands
+            if (step === '^C') {
+                return { type: 'signal', value: 'SIGINT' };
+            }
+            if (/^SIG[A-Z0-9]+$/.test(step)) {
+                return { type: 'signal', value: step };
+            }
+            return { type: 'command', value: step };
         });
     }
 
+    // Returns false when the step could not be delivered, so the caller escalates immediately
+    private executeStopStep(serverProcess: ServerProcess, step: StopStep): boolean {
+        const { config, process: child } = serverProcess;
+
+        if (step.type === 'command') {
+            if (!child.writable) {
+                config.onOutput(`[DAEMON] Cannot send stop command "${step.value}": stdin not available`);
+                return false;
+            }
+            config.onOutput(`[DAEMON] Sending stop command: ${step.value}`);
+            child.write(step.value + '\n');
+            return true;
+        }
+
+        const signal = (step.value === '^C' ? 'SIGINT' : step.value.toUpperCase()) as NodeJS.Signals;
+        if (!(signal in os.constants.signals)) {
+            config.onOutput(`[DAEMON] Unknown stop signal "${step.value}"`);
+            return false;
+        }
+        config.onOutput(`[DAEMON] Sending ${signal} to server process group`);
+        child.kill(signal);
+        return true;
+    }
+
+    private waitForExit(serverProcess: ServerProcess): Promise<void> {
+        const child = serverProcess.process;
+        if (child.exited) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve) => child.once('exit', () => resolve()));
+    }
+
     async killServer(serverId: string): Promise<void> {
+        this.cancelPendingRestart(serverId);
+        this.restartAttempts.delete(serverId);
+
         const serverProcess = this.servers.get(serverId);
         if (!serverProcess) {
             return;
         }
 
+        serverProcess.stopRequested = true;
         serverProcess.process.kill('SIGKILL');
         serverProcess.status = 'OFFLINE';
         serverProcess.config.onStatusChange('OFFLINE');
         this.servers.delete(serverId);
+        this.rcon.disconnect(serverId);
     }
 
-    sendCommand(serverId: string, command: string): void {
+    async sendCommand(serverId: string, command: string): Promise<CommandResult> {
         const serverProcess = this.servers.get(serverId);
-        if (!serverProcess || !serverProcess.process.stdin?.writable) {
-            console.log(`Cannot send command to ${serverId}: not running or stdin not available`);
-            return;
+        if (!serverProcess || serverProcess.status === 'OFFLINE') {
+            throw new CommandError('NOT_RUNNING', 'Server is not running');
         }
 
-        serverProcess.process.stdin.write(command + '\n');
+        // RCON only comes up once the game has started, until then stdin is all there is
+        const { rcon, command: startup, ip, port } = serverProcess.config;
+        if (rcon && (serverProcess.status !== 'STARTING' || !serverProcess.process.writable)) {
+            const response = await this.rcon.exec(serverId, rcon, {
+                serverPath: this.getServerPath(serverId),
+                command: startup,
+                ip,
+                port,
+            }, command);
+            return { channel: 'rcon', response };
+        }
+
+        if (!serverProcess.process.writable || !serverProcess.process.write(command + '\n')) {
+            throw new CommandError('STDIN_UNAVAILABLE', 'Server console input is not available');
+        }
+        return { channel: 'stdin' };
     }
 
     async stopAllServers(): Promise<void> {
@@ -222,20 +935,37 @@ export class ProcessManager {
         await Promise.all(stopPromises);
     }
 
-    async getAllServerStats(): Promise<Record<string, { cpu: number; memory: number }>> {
-        const stats: Record<string, { cpu: number; memory: number }> = {};
+    async getAllServerStats(): Promise<Record<string, ServerStats>> {
+        const stats: Record<string, ServerStats> = {};
 
         for (const [serverId, serverProcess] of this.servers) {
+            // Starting servers are only sampled for the crash report's peak memory; an OOM on boot is the common crash
+            if (serverProcess.process.pid && serverProcess.status === 'STARTING') {
+                const usage = await serverProcess.runtime.getStats(serverId, serverProcess.process, serverProcess.runtimeState).catch(() => null);
+                if (usage) {
+                    serverProcess.peakMemory = Math.max(serverProcess.peakMemory, usage.memory);
+                }
+            }
             if (serverProcess.process.pid && serverProcess.status === 'RUNNING') {
+                const timing = {
+                    uptime: Math.round((Date.now() - serverProcess.startedAt.getTime()) / 1000),
+                    startupTime: serverProcess.startupTime !== undefined
+                        ? Math.round(serverProcess.startupTime / 100) / 10
+                        : undefined,
+                };
+
                 try {
-                    const usage = await pidusage(serverProcess.process.pid);
-                    stats[serverId] = {
-                        cpu: Math.round(usage.cpu * 100) / 100,
-                        memory: Math.round(usage.memory / (1024 * 1024)), // Convert to MB
-                    };
+                    const usage = await serverProcess.runtime.getStats(serverId, serverProcess.process, serverProcess.runtimeState);
+                    stats[serverId] = { ...usage, ...timing };
+                    serverProcess.peakMemory = Math.max(serverProcess.peakMemory, usage.memory);
                 } catch (error) {
                     // Process might have exited
-                    stats[serverId] = { cpu: 0, memory: 0 };
+                    stats[serverId] = { cpu: 0, memory: 0, ...timing };
+                }
+
+                const allocations = await this.getAllocationStatus(serverProcess).catch(() => undefined);
+                if (allocations) {
+                    stats[serverId].allocations = allocations;
                 }
             }
         }
@@ -243,96 +973,67 @@ export class ProcessManager {
         return stats;
     }
 
-    getServerStatus(serverId: string): string {
-        const serverProcess = this.servers.get(serverId);
-        return serverProcess?.status || 'OFFLINE';
+    // The running server that holds the port, so two servers never get started on the same one
+    getAllocationOwner(ip: string, port: number, exceptServerId?: string): string | undefined {
+        for (const [serverId, serverProcess] of this.servers) {
+            if (serverId === exceptServerId) {
+                continue;
+            }
+            if (this.getAllocations(serverProcess.config).some(allocation => allocation.port === port && this.sameAddress(allocation.ip, ip))) {
+                return serverId;
+            }
+        }
+        return undefined;
     }
 
-    isServerRunning(serverId: string): boolean {
-        const serverProcess = this.servers.get(serverId);
-        return serverProcess?.status === 'RUNNING' || serverProcess?.status === 'STARTING';
+    private getAllocations(config: StartConfig): Allocation[] {
+        return [
+            ...(config.port ? [{ ip: config.ip || '0.0.0.0', port: config.port }] : []),
+            ...(config.allocations || []),
+        ];
     }
 
-    private parseCommand(command: string): string[] {
-        // Simple parsing - split on spaces but respect quotes
-        const parts: string[] = [];
-        let current = '';
-        let inQuotes = false;
-        let quoteChar = '';
-
-        for (const char of command) {
-            if ((char === '"' || char === "'") && !inQuotes) {
-                inQuotes = true;
-                quoteChar = char;
-            } else if (char === quoteChar && inQuotes) {
-                inQuotes = false;
-                quoteChar = '';
-            } else if (char === ' ' && !inQuotes) {
-                if (current) {
-                    parts.push(current);
-                    current = '';
-                }
-            } else {
-                current += char;
-            }
+    private async getAllocationStatus(serverProcess: ServerProcess): Promise<AllocationStatus[] | undefined> {
+        const allocations = this.getAllocations(serverProcess.config);
+        if (allocations.length === 0) {
+            return undefined;
         }
 
-        if (current) {
-            parts.push(current);
-        }
-
-        return parts;
+        const sockets = await serverProcess.runtime.getListeningSockets(
+            serverProcess.serverId,
+            serverProcess.process,
+            serverProcess.runtimeState
+        );
+        return allocations.map((allocation, index) => ({
+            ...allocation,
+            primary: index === 0 && !!serverProcess.config.port,
+            listening: (['tcp', 'udp'] as const).filter(protocol => sockets.some(socket =>
+                socket.protocol === protocol && socket.port === allocation.port && this.sameAddress(socket.ip, allocation.ip)
+            )),
+        }));
     }
 
-    // Update server.properties with correct port and IP
-    private async updateServerProperties(serverPath: string, port?: number, ip?: string): Promise<void> {
-        const propsPath = path.join(serverPath, 'server.properties');
+    // Wildcard addresses overlap with every address
+    private sameAddress(a: string, b: string): boolean {
+        const wildcard = (ip: string) => !ip || ip === '0.0.0.0' || ip === '::';
+        return wildcard(a) || wildcard(b) || a === b;
+    }
 
-        try {
-            // Check if file exists
-            await fs.access(propsPath);
-
-            // Read existing content
-            let content = await fs.readFile(propsPath, 'utf-8');
-
-            // Update port
-            if (port) {
-                content = content.replace(/server-port=\d+/g, `server-port=${port}`);
-                content = content.replace(/query\.port=\d+/g, `query.port=${port}`);
-                // If server-port doesn't exist, add it
-                if (!content.includes('server-port=')) {
-                    content += `\nserver-port=${port}`;
-                }
-            }
+    getServerStatuses(): Record<string, ProcessState> {
+        const statuses: Record<string, ProcessState> = {};
+        for (const [serverId, serverProcess] of this.servers) {
+            statuses[serverId] = serverProcess.status;
+        }
+        return statuses;
+    }
 
-            // Update IP
-            if (ip) {
-                content = content.replace(/server-ip=.*/g, `server-ip=${ip}`);
-                // If server-ip doesn't exist, add it
-                if (!content.includes('server-ip=')) {
-                    content += `\nserver-ip=${ip}`;
-                }
-            }
+    getServerStatus(serverId: string): ProcessState {
+        const serverProcess = this.servers.get(serverId);
+        return serverProcess?.status || 'OFFLINE';
+    }
 
-            // Write updated content
-            await fs.writeFile(propsPath, content);
-            console.log(`[Config] Updated server.properties: port=${port}, ip=${ip}`);
-        } catch (error) {
-            // File doesn't exist yet - that's okay, server will create it on first run
-            // But we can create a minimal one
-            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
-                const minimalProps = [
-                    `server-port=${port || 25565}`,
-                    `server-ip=${ip || '0.0.0.0'}`,
-                    `query.port=${port || 25565}`,
-                    `enable-query=true`,
-                ].join('\n');
-
-                await fs.writeFile(propsPath, minimalProps);
-                console.log(`[Config] Created minimal server.properties: port=${port}, ip=${ip}`);
-            } else {
-                console.error('[Config] Error updating server.properties:', error);
-            }
-        }
+    isServerRunning(serverId: string): boolean {
+        const serverProcess = this.servers.get(serverId);
+        return serverProcess?.status === 'RUNNING' || serverProcess?.status === 'STARTING';
     }
 }
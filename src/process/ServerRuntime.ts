@@ -0,0 +1,112 @@
+import { EventEmitter } from 'events';
+import { ServerIdentity } from './ServerUserManager.js';
+import { ListeningSocket } from './SocketTable.js';
+
+export interface Allocation {
+    ip: string;
+    port: number;
+}
+
+export interface ServerMount {
+    source: string;          // Host directory
+    target: string;          // Path inside the server directory
+    readOnly: boolean;
+}
+
+export interface RuntimeSpec {
+    serverId: string;
+    command: string;
+    args: string[];
+    cwd: string;             // Server directory on the host
+    env: Record<string, string>;
+    memory: number;          // MB, 0 = unlimited
+    swap: number;            // MB, 0 = no swap, -1 = unlimited
+    cpu: number;             // Percent of a single core, 0 = unlimited
+    image?: string;          // Container image, for runtimes that need one
+    ip?: string;
+    port?: number;
+    allocations?: Allocation[]; // Additional allocations besides ip/port
+    user?: ServerIdentity;   // Run as this uid/gid instead of the daemon's user
+    mounts?: ServerMount[];
+}
+
+export interface RuntimeStats {
+    cpu: number;             // Percent of a single core
+    memory: number;          // MB
+    memoryLimit?: number;    // MB, when the runtime enforces one
+}
+
+/**
+ * A running (or reattached) game server as seen by ProcessManager.
+ *
+ * Emits 'stdout' and 'stderr' with text chunks and 'exit' with
+ * (code, signal, error). Events are held back until resume() so nothing is
+ * missed between starting the server and attaching listeners.
+ */
+export interface ServerHandle extends EventEmitter {
+    readonly pid?: number;
+    readonly startedAt?: Date;
+    readonly exited: boolean;
+    readonly writable: boolean;
+    write(data: string): boolean;
+    kill(signal: NodeJS.Signals): boolean;
+    resume(): void;
+    // Drop the connection without affecting the game process
+    detach(): void;
+}
+
+export interface StartedServer {
+    handle: ServerHandle;
+    // Persisted with the server state and handed back to reattach()/getStats()/cleanup()
+    state: Record<string, any>;
+}
+
+export interface ServerRuntime {
+    readonly name: string;
+    // Whether the server process itself is kept from writing to read-only mounts
+    readonly enforcesReadOnlyMounts: boolean;
+    start(spec: RuntimeSpec): Promise<StartedServer>;
+    reattach(serverId: string, state: Record<string, any>): Promise<ServerHandle>;
+    getStats(serverId: string, handle: ServerHandle, state: Record<string, any>): Promise<RuntimeStats>;
+    // Sockets the server's processes are listening on
+    getListeningSockets(serverId: string, handle: ServerHandle, state: Record<string, any>): Promise<ListeningSocket[]>;
+    wasOomKilled(serverId: string, state: Record<string, any>): Promise<boolean>;
+    // Called once the server has exited and its exit was handled
+    cleanup(serverId: string, state: Record<string, any>): Promise<void>;
+    // Called when the server is deleted from the node
+    removeServer(serverId: string): Promise<void>;
+}
+
+/**
+ * Handle for a server that already exited while nobody was attached.
+ * Reports the exit as soon as it is resumed.
+ */
+export class ExitedHandle extends EventEmitter implements ServerHandle {
+    exited = false;
+    readonly writable = false;
+    private code: number | null;
+    private signal: NodeJS.Signals | null;
+    private error?: string;
+
+    constructor(code: number | null, signal: NodeJS.Signals | null, error?: string) {
+        super();
+        this.code = code;
+        this.signal = signal;
+        this.error = error;
+    }
+
+    write(): boolean {
+        return false;
+    }
+
+    kill(): boolean {
+        return false;
+    }
+
+    resume(): void {
+        this.exited = true;
+        this.emit('exit', this.code, this.signal, this.error);
+    }
+
+    detach(): void { }
+}
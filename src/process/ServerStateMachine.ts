@@ -0,0 +1,143 @@
+export type ProcessState = 'OFFLINE' | 'STARTING' | 'RUNNING' | 'STOPPING';
+export type MaintenanceState = 'INSTALLING' | 'RESTORING' | 'TRANSFERRING';
+export type ServerState = ProcessState | MaintenanceState;
+
+export type ServerOperation = 'start' | 'stop' | 'restart' | 'kill' | 'install' | 'restore' | 'transfer' | 'delete';
+
+export class ServerOperationError extends Error {
+    serverId: string;
+    operation: ServerOperation;
+    state: ServerState;
+
+    constructor(serverId: string, operation: ServerOperation, state: ServerState, message: string) {
+        super(message);
+        this.name = 'ServerOperationError';
+        this.serverId = serverId;
+        this.operation = operation;
+        this.state = state;
+    }
+}
+
+// States a server may be in when an operation actually runs
+const ALLOWED_STATES: Record<ServerOperation, ServerState[]> = {
+    start: ['OFFLINE'],
+    stop: ['OFFLINE', 'STARTING', 'RUNNING', 'STOPPING'],
+    restart: ['OFFLINE', 'STARTING', 'RUNNING'],
+    kill: ['OFFLINE', 'STARTING', 'RUNNING', 'STOPPING'],
+    install: ['OFFLINE'],
+    restore: ['OFFLINE'],
+    transfer: ['OFFLINE'],
+    delete: ['OFFLINE', 'STARTING', 'RUNNING', 'STOPPING'],
+};
+
+const MAINTENANCE_STATES: Partial<Record<ServerOperation, MaintenanceState>> = {
+    install: 'INSTALLING',
+    restore: 'RESTORING',
+    transfer: 'TRANSFERRING',
+};
+
+// A kill must get through while a stop is still waiting for the server to exit
+const IMMEDIATE_OPERATIONS: ServerOperation[] = ['kill'];
+
+const MAX_QUEUED_OPERATIONS = 5;
+
+/**
+ * Serializes everything that changes a server's lifecycle. Operations run one
+ * at a time per server in request order and are checked against the state the
+ * server is in when their turn comes. While an install, restore or transfer
+ * holds the server, other operations are rejected instead of queued.
+ */
+export class ServerStateMachine {
+    private getProcessState: (serverId: string) => ProcessState;
+    private onStateChange: (serverId: string, state: ServerState) => void;
+    private maintenance: Map<string, MaintenanceState> = new Map();
+    private queues: Map<string, Promise<void>> = new Map();
+    private queued: Map<string, number> = new Map();
+
+    constructor(
+        getProcessState: (serverId: string) => ProcessState,
+        onStateChange: (serverId: string, state: ServerState) => void
+    ) {
+        this.getProcessState = getProcessState;
+        this.onStateChange = onStateChange;
+    }
+
+    getState(serverId: string): ServerState {
+        return this.maintenance.get(serverId) || this.getProcessState(serverId);
+    }
+
+    async run<T>(serverId: string, operation: ServerOperation, action: () => Promise<T>): Promise<T> {
+        this.assertNotInMaintenance(serverId, operation);
+
+        if (IMMEDIATE_OPERATIONS.includes(operation)) {
+            this.assertAllowed(serverId, operation);
+            return action();
+        }
+
+        const queued = this.queued.get(serverId) || 0;
+        if (queued >= MAX_QUEUED_OPERATIONS) {
+            throw new ServerOperationError(serverId, operation, this.getState(serverId),
+                `Too many pending operations for this server, try again once ${queued} queued operations have finished`);
+        }
+        this.queued.set(serverId, queued + 1);
+
+        const previous = this.queues.get(serverId) || Promise.resolve();
+        const current = previous.then(() => this.execute(serverId, operation, action));
+
+        const tail = current.then(() => { }, () => { });
+        this.queues.set(serverId, tail);
+        tail.then(() => {
+            const remaining = (this.queued.get(serverId) || 1) - 1;
+            if (remaining > 0) {
+                this.queued.set(serverId, remaining);
+            } else {
+                this.queued.delete(serverId);
+            }
+            if (this.queues.get(serverId) === tail) {
+                this.queues.delete(serverId);
+            }
+        });
+
+        return current;
+    }
+
+    private async execute<T>(serverId: string, operation: ServerOperation, action: () => Promise<T>): Promise<T> {
+        this.assertAllowed(serverId, operation);
+
+        const maintenanceState = MAINTENANCE_STATES[operation];
+        if (!maintenanceState) {
+            return action();
+        }
+
+        this.maintenance.set(serverId, maintenanceState);
+        this.onStateChange(serverId, maintenanceState);
+        try {
+            return await action();
+        } finally {
+            this.maintenance.delete(serverId);
+            this.onStateChange(serverId, this.getProcessState(serverId));
+        }
+    }
+
+    private assertNotInMaintenance(serverId: string, operation: ServerOperation): void {
+        const state = this.maintenance.get(serverId);
+        if (state) {
+            throw new ServerOperationError(serverId, operation, state,
+                `Cannot ${operation} the server while it is ${state.toLowerCase()}`);
+        }
+    }
+
+    private assertAllowed(serverId: string, operation: ServerOperation): void {
+        const state = this.getState(serverId);
+        if (ALLOWED_STATES[operation].includes(state)) {
+            return;
+        }
+
+        const message = operation === 'start' && (state === 'RUNNING' || state === 'STARTING')
+            ? 'Server is already running'
+            : MAINTENANCE_STATES[operation]
+                ? `Cannot ${operation} the server while it is ${state.toLowerCase()}, stop it first`
+                : `Cannot ${operation} the server while it is ${state.toLowerCase()}`;
+        throw new ServerOperationError(serverId, operation, state, message);
+    }
+}
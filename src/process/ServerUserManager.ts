@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+
+export interface ServerIdentity {
+    uid: number;
+    gid: number;
+}
+
+/**
+ * Allocates a dedicated UID/GID per server and keeps the server directory
+ * owned by it. Identities are numeric only; no passwd entries are needed to
+ * spawn processes with them. Allocations are persisted so a server keeps its
+ * identity (and file ownership) across daemon restarts.
+ */
+export class ServerUserManager {
+    private allocationsPath: string;
+    private uidBase: number;
+    private allocations: Record<string, number> | null = null;
+
+    constructor(stateDirectory: string, uidBase: number = 20000) {
+        this.allocationsPath = path.join(stateDirectory, 'users.json');
+        this.uidBase = uidBase;
+    }
+
+    async getIdentity(serverId: string): Promise<ServerIdentity> {
+        const allocations = await this.load();
+
+        if (allocations[serverId] === undefined) {
+            // Reuse the lowest free id so released servers don't make the range grow forever
+            const used = new Set(Object.values(allocations));
+            let uid = this.uidBase;
+            while (used.has(uid)) {
+                uid++;
+            }
+            allocations[serverId] = uid;
+            await this.save();
+            console.log(`[Users] Allocated uid ${uid} for server ${serverId}`);
+        }
+
+        const uid = allocations[serverId];
+        return { uid, gid: uid };
+    }
+
+    async release(serverId: string): Promise<void> {
+        const allocations = await this.load();
+        if (allocations[serverId] !== undefined) {
+            delete allocations[serverId];
+            await this.save();
+        }
+    }
+
+    /**
+     * Hand the server directory to the server's identity and lock other servers
+     * out of it. Only entries with the wrong owner are touched, so this stays
+     * cheap on large directories that are already correct.
+     */
+    async applyOwnership(serverPath: string, identity: ServerIdentity): Promise<void> {
+        await fs.chmod(serverPath, 0o700);
+
+        const walk = async (target: string) => {
+            const stats = await fs.lstat(target);
+            if (stats.uid !== identity.uid || stats.gid !== identity.gid) {
+                await fs.lchown(target, identity.uid, identity.gid);
+            }
+
+            // Never follow symlinks: mounts point outside the server directory
+            if (stats.isDirectory() && !stats.isSymbolicLink()) {
+                for (const entry of await fs.readdir(target)) {
+                    await walk(path.join(target, entry));
+                }
+            }
+        };
+
+        await walk(serverPath);
+    }
+
+    private async load(): Promise<Record<string, number>> {
+        if (!this.allocations) {
+            try {
+                this.allocations = JSON.parse(await fs.readFile(this.allocationsPath, 'utf-8'));
+            } catch {
+                this.allocations = {};
+            }
+        }
+        return this.allocations!;
+    }
+
+    private async save(): Promise<void> {
+        await fs.mkdir(path.dirname(this.allocationsPath), { recursive: true });
+        await fs.writeFile(this.allocationsPath, JSON.stringify(this.allocations, null, 2));
+    }
+}
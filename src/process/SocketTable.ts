@@ -0,0 +1,100 @@
+import fs from 'fs/promises';
+
+export interface ListeningSocket {
+    protocol: 'tcp' | 'udp';
+    ip: string;
+    port: number;
+    inode: number;
+}
+
+// /proc/net/tcp state of a listening socket
+const TCP_LISTEN = '0A';
+// UDP sockets have no listen state; bound but unconnected ones are 07 (CLOSE)
+const UDP_UNCONNECTED = '07';
+
+/**
+ * Reads listening sockets from /proc. The tables are per network namespace,
+ * so they are read through a pid of the server to see its namespace.
+ */
+export class SocketTable {
+    static async listListening(pid: number): Promise<ListeningSocket[]> {
+        const sockets: ListeningSocket[] = [];
+        for (const [file, protocol, state] of [
+            ['tcp', 'tcp', TCP_LISTEN],
+            ['tcp6', 'tcp', TCP_LISTEN],
+            ['udp', 'udp', UDP_UNCONNECTED],
+            ['udp6', 'udp', UDP_UNCONNECTED],
+        ] as const) {
+            let content: string;
+            try {
+                content = await fs.readFile(`/proc/${pid}/net/${file}`, 'utf-8');
+            } catch {
+                continue; // No IPv6 on this host
+            }
+
+            for (const line of content.split('\n').slice(1)) {
+                const fields = line.trim().split(/\s+/);
+                if (fields.length < 10 || fields[3] !== state) {
+                    continue;
+                }
+                const [address, port] = fields[1].split(':');
+                sockets.push({
+                    protocol,
+                    ip: this.parseAddress(address),
+                    port: parseInt(port, 16),
+                    inode: Number(fields[9]),
+                });
+            }
+        }
+        return sockets;
+    }
+
+    // Inodes of every socket the processes have open
+    static async getSocketInodes(pids: number[]): Promise<Set<number>> {
+        const inodes = new Set<number>();
+        for (const pid of pids) {
+            let fds: string[];
+            try {
+                fds = await fs.readdir(`/proc/${pid}/fd`);
+            } catch {
+                continue; // Exited, or not ours to inspect
+            }
+            for (const fd of fds) {
+                const target = await fs.readlink(`/proc/${pid}/fd/${fd}`).catch(() => '');
+                const match = target.match(/^socket:\[(\d+)\]$/);
+                if (match) {
+                    inodes.add(Number(match[1]));
+                }
+            }
+        }
+        return inodes;
+    }
+
+    // Addresses are stored as 32-bit words in host (little-endian) byte order
+    private static parseAddress(hex: string): string {
+        const words = hex.match(/.{8}/g) || [];
+        const bytes = words.flatMap(word => (word.match(/../g) || []).reverse().map(byte => parseInt(byte, 16)));
+
+        if (bytes.length === 4) {
+            return bytes.join('.');
+        }
+
+        // IPv4-mapped IPv6 (::ffff:a.b.c.d)
+        if (bytes.slice(0, 10).every(byte => byte === 0) && bytes[10] === 0xff && bytes[11] === 0xff) {
+            return bytes.slice(12).join('.');
+        }
+
+        const groups: string[] = [];
+        for (let i = 0; i < 16; i += 2) {
+            groups.push(((bytes[i] << 8) | bytes[i + 1]).toString(16));
+        }
+        // Collapse the longest run of zero groups
+        const joined = groups.join(':');
+        const runs = joined.match(/(^|:)0(:0)+(:|$)/g);
+        if (!runs) {
+            return joined;
+        }
+        const longest = runs.reduce((a, b) => (b.length > a.length ? b : a));
+        return joined.replace(longest, '::');
+    }
+}
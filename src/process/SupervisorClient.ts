@@ -0,0 +1,151 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import { ServerHandle } from './ServerRuntime.js';
+
+type SupervisorMessage =
+    | { type: 'hello'; pid: number | undefined; startedAt: string }
+    | { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+    | { type: 'exit'; code: number | null; signal: NodeJS.Signals | null; error?: string };
+
+const CONNECT_RETRY_MS = 100;
+
+/**
+ * Connection to a server's supervisor process.
+ *
+ * Emits 'stdout' and 'stderr' with decoded text chunks and 'exit' with
+ * (code, signal, error) once the game process is gone. Losing the socket
+ * without an exit message is reported as an exit with an error, since the
+ * supervisor itself must have died.
+ *
+ * Messages are queued until resume() is called so no output is lost
+ * between connecting and attaching listeners.
+ */
+export class SupervisorClient extends EventEmitter implements ServerHandle {
+    pid?: number;
+    startedAt?: Date;
+    exited = false;
+
+    private socket: net.Socket;
+    private buffer = '';
+    private queue: SupervisorMessage[] = [];
+    private paused = true;
+    private detached = false;
+
+    private constructor(socket: net.Socket) {
+        super();
+        this.socket = socket;
+
+        socket.on('data', (data) => {
+            this.buffer += data.toString();
+            let index: number;
+            while ((index = this.buffer.indexOf('\n')) !== -1) {
+                const line = this.buffer.slice(0, index);
+                this.buffer = this.buffer.slice(index + 1);
+                try {
+                    this.dispatch(JSON.parse(line));
+                } catch { }
+            }
+        });
+
+        socket.on('close', () => {
+            if (!this.detached) {
+                this.dispatch({ type: 'exit', code: null, signal: null, error: 'Lost connection to supervisor' });
+            }
+        });
+
+        socket.on('error', () => { });
+    }
+
+    static connect(socketPath: string, timeoutMs: number = 5000): Promise<SupervisorClient> {
+        const deadline = Date.now() + timeoutMs;
+
+        return new Promise((resolve, reject) => {
+            const attempt = () => {
+                const socket = net.createConnection(socketPath);
+
+                const onError = (error: NodeJS.ErrnoException) => {
+                    socket.destroy();
+                    // The supervisor may not be listening yet
+                    if ((error.code === 'ENOENT' || error.code === 'ECONNREFUSED') && Date.now() < deadline) {
+                        setTimeout(attempt, CONNECT_RETRY_MS);
+                    } else {
+                        reject(error);
+                    }
+                };
+                socket.once('error', onError);
+
+                socket.once('connect', () => {
+                    socket.off('error', onError);
+                    const client = new SupervisorClient(socket);
+                    client.once('hello', () => resolve(client));
+                    client.once('exit-queued', () => resolve(client));
+                });
+            };
+
+            attempt();
+        });
+    }
+
+    get writable(): boolean {
+        return !this.exited && !this.socket.destroyed && this.socket.writable;
+    }
+
+    write(data: string): boolean {
+        return this.send({ type: 'stdin', data });
+    }
+
+    kill(signal: NodeJS.Signals): boolean {
+        return this.send({ type: 'signal', signal });
+    }
+
+    resume(): void {
+        this.paused = false;
+        for (const message of this.queue.splice(0)) {
+            this.handle(message);
+        }
+    }
+
+    // Drop the connection without affecting the game process
+    detach(): void {
+        this.detached = true;
+        this.socket.end();
+    }
+
+    private send(message: object): boolean {
+        if (!this.writable) {
+            return false;
+        }
+        this.socket.write(JSON.stringify(message) + '\n');
+        return true;
+    }
+
+    private dispatch(message: SupervisorMessage): void {
+        // The handshake is handled immediately so connect() can resolve
+        if (message.type === 'hello') {
+            this.pid = message.pid;
+            this.startedAt = new Date(message.startedAt);
+            this.emit('hello');
+            return;
+        }
+
+        if (this.paused) {
+            this.queue.push(message);
+            // connect() also resolves when the socket dies before the handshake
+            if (message.type === 'exit') {
+                this.emit('exit-queued');
+            }
+            return;
+        }
+
+        this.handle(message);
+    }
+
+    private handle(message: SupervisorMessage): void {
+        if (message.type === 'output') {
+            this.emit(message.stream, message.data);
+        } else if (message.type === 'exit' && !this.exited) {
+            this.exited = true;
+            this.emit('exit', message.code, message.signal, message.error);
+        }
+    }
+}
@@ -0,0 +1,244 @@
+/**
+ * Per-server supervisor.
+ *
+ * Runs detached from the daemon and owns a single game server process, so the
+ * server survives daemon restarts and updates. The daemon talks to it over a
+ * unix socket using newline-delimited JSON:
+ *
+ *   supervisor -> daemon: hello, output, exit
+ *   daemon -> supervisor: stdin, signal
+ *
+ * Output produced while no daemon is attached is buffered and replayed on the
+ * next connection. When the game process exits the result is written to the
+ * exit file so a daemon that was down at the time can still pick it up.
+ *
+ * Usage: node supervisor.js <spec.json>
+ */
+import { spawn } from 'child_process';
+import fs from 'fs';
+import net from 'net';
+import path from 'path';
+import { StringDecoder } from 'string_decoder';
+
+interface SupervisorSpec {
+    serverId: string;
+    command: string;
+    args: string[];
+    cwd: string;
+    env: Record<string, string>;
+    socketPath: string;
+    exitPath: string;
+    cgroup?: string;         // cgroup v2 directory to join before spawning the game
+    uid?: number;
+    gid?: number;
+}
+
+type SupervisorMessage =
+    | { type: 'hello'; pid: number | undefined; startedAt: string }
+    | { type: 'output'; stream: 'stdout' | 'stderr'; data: string }
+    | { type: 'exit'; code: number | null; signal: string | null; error?: string };
+
+// Output kept for replay while the daemon is not attached
+const MAX_BUFFERED_OUTPUT = 256 * 1024;
+
+// How long an exited server's supervisor waits for the daemon to collect its status
+const ORPHAN_EXIT_GRACE_MS = 5000;
+
+const specPath = process.argv[2];
+if (!specPath) {
+    console.error('Usage: supervisor <spec.json>');
+    process.exit(1);
+}
+
+const spec: SupervisorSpec = JSON.parse(fs.readFileSync(specPath, 'utf-8'));
+// The spec contains the server environment, don't leave it lying around
+fs.rmSync(specPath, { force: true });
+
+const clients = new Set<net.Socket>();
+const pending: SupervisorMessage[] = [];
+let pendingBytes = 0;
+const startedAt = new Date().toISOString();
+let exited = false;
+
+// Join the server's cgroup first so the game and everything it forks inherit the limits
+let startError: string | undefined;
+if (spec.cgroup) {
+    try {
+        fs.writeFileSync(path.join(spec.cgroup, 'cgroup.procs'), String(process.pid));
+    } catch (error) {
+        startError = `Failed to join cgroup ${spec.cgroup}: ${error instanceof Error ? error.message : error}`;
+    }
+}
+
+const child = startError ? null : spawn(spec.command, spec.args, {
+    cwd: spec.cwd,
+    env: spec.env,
+    stdio: ['pipe', 'pipe', 'pipe'],
+    shell: true,
+    // Own session and process group, so signals reach the game and not just the /bin/sh wrapper
+    detached: true,
+    uid: spec.uid,
+    gid: spec.gid,
+});
+
+function signalGroup(signal: NodeJS.Signals): void {
+    if (!child?.pid) {
+        return;
+    }
+    try {
+        process.kill(-child.pid, signal);
+    } catch {
+        try {
+            child.kill(signal);
+        } catch { }
+    }
+}
+
+function broadcast(message: SupervisorMessage): void {
+    const payload = JSON.stringify(message) + '\n';
+
+    if (clients.size === 0) {
+        pending.push(message);
+        pendingBytes += message.type === 'output' ? message.data.length : 0;
+        while (pendingBytes > MAX_BUFFERED_OUTPUT && pending.length > 1) {
+            const dropped = pending.shift()!;
+            pendingBytes -= dropped.type === 'output' ? dropped.data.length : 0;
+        }
+        return;
+    }
+
+    for (const client of clients) {
+        client.write(payload);
+    }
+}
+
+function pipeOutput(stream: NodeJS.ReadableStream | null, name: 'stdout' | 'stderr'): void {
+    // Decode per stream so multi-byte characters split across chunks survive
+    const decoder = new StringDecoder('utf8');
+    stream?.on('data', (data: Buffer) => {
+        const text = decoder.write(data);
+        if (text) {
+            broadcast({ type: 'output', stream: name, data: text });
+        }
+    });
+}
+
+pipeOutput(child?.stdout ?? null, 'stdout');
+pipeOutput(child?.stderr ?? null, 'stderr');
+
+// Keep stdin errors (EPIPE after the game exits) from taking the supervisor down
+child?.stdin?.on('error', () => { });
+
+function handleMessage(line: string): void {
+    let message: { type: string; data?: string; signal?: string };
+    try {
+        message = JSON.parse(line);
+    } catch {
+        return;
+    }
+
+    if (message.type === 'stdin' && typeof message.data === 'string') {
+        if (child?.stdin?.writable) {
+            child.stdin.write(message.data);
+        }
+    } else if (message.type === 'signal' && message.signal) {
+        signalGroup(message.signal as NodeJS.Signals);
+    }
+}
+
+const server = net.createServer((socket) => {
+    clients.add(socket);
+    socket.write(JSON.stringify({ type: 'hello', pid: child?.pid, startedAt } satisfies SupervisorMessage) + '\n');
+
+    // Replay whatever the game printed while nobody was listening
+    for (const message of pending.splice(0)) {
+        socket.write(JSON.stringify(message) + '\n');
+    }
+    pendingBytes = 0;
+
+    if (exited) {
+        shutdown();
+        return;
+    }
+
+    let buffer = '';
+    socket.on('data', (data) => {
+        buffer += data.toString();
+        let index: number;
+        while ((index = buffer.indexOf('\n')) !== -1) {
+            handleMessage(buffer.slice(0, index));
+            buffer = buffer.slice(index + 1);
+        }
+    });
+
+    socket.on('close', () => clients.delete(socket));
+    socket.on('error', () => clients.delete(socket));
+});
+
+function finish(code: number | null, signal: string | null, error?: string): void {
+    if (exited) {
+        return;
+    }
+    exited = true;
+
+    const result: SupervisorMessage = { type: 'exit', code, signal, error };
+    try {
+        fs.writeFileSync(spec.exitPath, JSON.stringify({ ...result, exitedAt: new Date().toISOString() }));
+    } catch { }
+
+    broadcast(result);
+
+    if (clients.size > 0) {
+        shutdown();
+    } else {
+        // Wait briefly for a daemon that is still connecting, so it gets the output and exit status
+        setTimeout(shutdown, ORPHAN_EXIT_GRACE_MS);
+    }
+}
+
+let socketInode: number | undefined;
+
+function shutdown(): void {
+    server.close();
+    for (const client of clients) {
+        client.end();
+    }
+
+    // Give the sockets a moment to flush before going away
+    setTimeout(() => {
+        // A restarted server's new supervisor may already listen on the same path
+        try {
+            if (fs.statSync(spec.socketPath).ino === socketInode) {
+                fs.rmSync(spec.socketPath, { force: true });
+            }
+        } catch { }
+        process.exit(0);
+    }, 500);
+}
+
+// Processes the game left behind would keep its ports and the output pipes open
+child?.on('exit', () => signalGroup('SIGKILL'));
+// 'close' rather than 'exit' so output still in the pipes is delivered first
+child?.on('close', (code, signal) => finish(code, signal));
+child?.on('error', (error) => finish(null, null, error.message));
+
+// The daemon may be restarted with signals aimed at its process group
+process.on('SIGHUP', () => { });
+process.on('SIGINT', () => { });
+process.on('SIGTERM', () => signalGroup('SIGTERM'));
+
+// A supervisor that dies (e.g. its socket can't be set up) leaves nobody to reach or stop the game
+process.on('uncaughtException', (error) => {
+    console.error('[Supervisor]', error);
+    signalGroup('SIGKILL');
+    process.exit(1);
+});
+
+fs.rmSync(spec.socketPath, { force: true });
+server.listen(spec.socketPath, () => {
+    fs.chmodSync(spec.socketPath, 0o600);
+    socketInode = fs.statSync(spec.socketPath).ino;
+    if (startError) {
+        finish(null, null, startError);
+    }
+});
@@ -0,0 +1,261 @@
+import net from 'net';
+
+export type RconProtocol = 'source' | 'minecraft';
+
+export type RconErrorCode = 'CONNECT_FAILED' | 'AUTH_FAILED' | 'TIMEOUT' | 'CLOSED' | 'COMMAND_TOO_LONG' | 'NOT_CONFIGURED';
+
+export class RconError extends Error {
+    code: RconErrorCode;
+
+    constructor(code: RconErrorCode, message: string) {
+        super(message);
+        this.name = 'RconError';
+        this.code = code;
+    }
+}
+
+export interface RconClientOptions {
+    host: string;
+    port: number;
+    password: string;
+    protocol: RconProtocol;
+    timeout: number;         // ms to wait for a connection, the login or a response
+}
+
+interface Packet {
+    id: number;
+    type: number;
+    body: string;
+}
+
+interface PendingCommand {
+    id: number;
+    terminatorId: number;
+    parts: string[];
+    resolve: (response: string) => void;
+    reject: (error: Error) => void;
+    timer: NodeJS.Timeout;
+}
+
+const SERVERDATA_AUTH = 3;
+const SERVERDATA_AUTH_RESPONSE = 2;
+const SERVERDATA_EXECCOMMAND = 2;
+const SERVERDATA_RESPONSE_VALUE = 0;
+
+// Longest command body each server accepts
+const MAX_COMMAND_BYTES: Record<RconProtocol, number> = {
+    source: 4086,
+    minecraft: 1446,
+};
+
+/**
+ * Client for the Source RCON protocol, which Minecraft implements too.
+ *
+ * Long responses are split over several packets with no end marker, so every
+ * command is followed by an empty RESPONSE_VALUE packet. Both servers answer
+ * packets in order (Source mirrors it, Minecraft replies "Unknown request"),
+ * and the reply to it marks the end of the command's response.
+ */
+export class RconClient {
+    private options: RconClientOptions;
+    private socket: net.Socket | null = null;
+    private buffer = Buffer.alloc(0);
+    private nextId = 1;
+    private pending: PendingCommand | null = null;
+    private queue: Promise<unknown> = Promise.resolve();
+    private onAuth: ((packet: Packet) => void) | null = null;
+    private abortAuth: ((error: Error) => void) | null = null;
+
+    constructor(options: RconClientOptions) {
+        this.options = options;
+    }
+
+    get connected(): boolean {
+        return !!this.socket && !this.socket.destroyed;
+    }
+
+    async connect(): Promise<void> {
+        const { host, port, timeout } = this.options;
+
+        const socket = await new Promise<net.Socket>((resolve, reject) => {
+            const socket = net.connect({ host, port });
+            socket.setTimeout(timeout, () => {
+                socket.destroy();
+                reject(new RconError('CONNECT_FAILED', `RCON connection to ${host}:${port} timed out`));
+            });
+            socket.once('connect', () => {
+                socket.setTimeout(0);
+                resolve(socket);
+            });
+            socket.once('error', (error) => {
+                reject(new RconError('CONNECT_FAILED', `Cannot reach RCON on ${host}:${port}: ${error.message}`));
+            });
+        });
+
+        this.socket = socket;
+        socket.on('data', (chunk) => this.receive(chunk));
+        socket.on('error', () => { });
+        socket.on('close', () => {
+            this.socket = null;
+            const error = new RconError('CLOSED', 'RCON connection closed by the server');
+            this.abortAuth?.(error);
+            this.fail(error);
+        });
+
+        try {
+            await this.authenticate();
+        } catch (error) {
+            this.close();
+            throw error;
+        }
+    }
+
+    // Commands are sent one at a time so each response can be matched to its command
+    exec(command: string): Promise<string> {
+        const run = this.queue.then(() => this.send(command));
+        this.queue = run.catch(() => { });
+        return run;
+    }
+
+    close(): void {
+        this.socket?.destroy();
+        this.socket = null;
+    }
+
+    private authenticate(): Promise<void> {
+        const id = this.allocateId();
+        return new Promise((resolve, reject) => {
+            const finish = () => {
+                clearTimeout(timer);
+                this.onAuth = null;
+                this.abortAuth = null;
+            };
+            const timer = setTimeout(() => {
+                finish();
+                reject(new RconError('TIMEOUT', 'RCON server did not answer the login'));
+            }, this.options.timeout);
+
+            this.abortAuth = (error) => {
+                finish();
+                reject(error);
+            };
+            // Source sends an empty RESPONSE_VALUE before the AUTH_RESPONSE; only the latter counts
+            this.onAuth = (packet) => {
+                if (packet.type !== SERVERDATA_AUTH_RESPONSE) {
+                    return;
+                }
+                finish();
+                if (packet.id === id) {
+                    resolve();
+                } else {
+                    reject(new RconError('AUTH_FAILED', 'RCON password was rejected'));
+                }
+            };
+
+            this.write({ id, type: SERVERDATA_AUTH, body: this.options.password });
+        });
+    }
+
+    private send(command: string): Promise<string> {
+        if (!this.connected) {
+            return Promise.reject(new RconError('CLOSED', 'RCON is not connected'));
+        }
+        if (Buffer.byteLength(command) > MAX_COMMAND_BYTES[this.options.protocol]) {
+            return Promise.reject(new RconError(
+                'COMMAND_TOO_LONG',
+                `Command is longer than the ${MAX_COMMAND_BYTES[this.options.protocol]} bytes RCON accepts`
+            ));
+        }
+
+        return new Promise((resolve, reject) => {
+            const id = this.allocateId();
+            const terminatorId = this.allocateId();
+            this.pending = {
+                id,
+                terminatorId,
+                parts: [],
+                resolve,
+                reject,
+                timer: setTimeout(() => {
+                    // The connection is out of step now, start over on the next command
+                    this.fail(new RconError('TIMEOUT', 'RCON server did not answer the command'));
+                    this.close();
+                }, this.options.timeout),
+            };
+
+            this.write({ id, type: SERVERDATA_EXECCOMMAND, body: command });
+            this.write({ id: terminatorId, type: SERVERDATA_RESPONSE_VALUE, body: '' });
+        });
+    }
+
+    private receive(chunk: Buffer): void {
+        this.buffer = Buffer.concat([this.buffer, chunk]);
+
+        while (this.buffer.length >= 4) {
+            const size = this.buffer.readInt32LE(0);
+            if (size < 10 || size > 1024 * 1024) {
+                this.close();
+                return;
+            }
+            if (this.buffer.length < size + 4) {
+                return;
+            }
+
+            const packet: Packet = {
+                id: this.buffer.readInt32LE(4),
+                type: this.buffer.readInt32LE(8),
+                // Body is null terminated and followed by an empty string
+                body: this.buffer.toString('utf-8', 12, size + 2),
+            };
+            this.buffer = this.buffer.subarray(size + 4);
+            this.handle(packet);
+        }
+    }
+
+    private handle(packet: Packet): void {
+        if (this.onAuth) {
+            this.onAuth(packet);
+            return;
+        }
+
+        const pending = this.pending;
+        if (!pending) {
+            return;
+        }
+
+        if (packet.id === pending.id) {
+            pending.parts.push(packet.body);
+        } else if (packet.id === pending.terminatorId) {
+            clearTimeout(pending.timer);
+            this.pending = null;
+            pending.resolve(pending.parts.join(''));
+        }
+        // Anything else is the trailer Source sends after mirroring the terminator
+    }
+
+    private fail(error: Error): void {
+        const pending = this.pending;
+        if (pending) {
+            clearTimeout(pending.timer);
+            this.pending = null;
+            pending.reject(error);
+        }
+    }
+
+    private write(packet: Packet): void {
+        const body = Buffer.from(packet.body, 'utf-8');
+        const buffer = Buffer.alloc(body.length + 14);
+        buffer.writeInt32LE(body.length + 10, 0);
+        buffer.writeInt32LE(packet.id, 4);
+        buffer.writeInt32LE(packet.type, 8);
+        body.copy(buffer, 12);
+        // The two trailing null bytes are already zero
+        this.socket?.write(buffer);
+    }
+
+    private allocateId(): number {
+        const id = this.nextId;
+        this.nextId = this.nextId >= 0x7fffffff ? 1 : this.nextId + 1;
+        return id;
+    }
+}
@@ -0,0 +1,199 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomBytes } from 'crypto';
+import { RconClient, RconError, RconProtocol } from './RconClient.js';
+import { ConfigFilePatcher, ConfigPatchResult } from '../config/ConfigFilePatcher.js';
+
+/**
+ * Per-egg RCON settings from the start config. Anything left out is read from
+ * the game's own config files.
+ */
+export interface RconConfig {
+    protocol: RconProtocol;
+    host?: string;           // Defaults to the server's IP, or loopback when it listens on every address
+    port?: number;
+    password?: string;
+    timeout?: number;        // Seconds to wait for the server, defaults to 5
+}
+
+// What RconManager needs to know about the server to find its RCON port
+export interface RconServer {
+    serverPath: string;
+    command: string;         // Rendered startup command, Source servers often take the password there
+    ip?: string;
+    port?: number;
+}
+
+interface RconSettings {
+    host: string;
+    port: number;
+    password: string;
+}
+
+const DEFAULT_TIMEOUT = 5;
+
+const MINECRAFT_PROPERTIES = 'server.properties';
+const MINECRAFT_DEFAULT_PORT = 25575;
+
+// Source engine games keep their cfg folder in the game directory (csgo/, tf/, garrysmod/, ...)
+const SOURCE_CONFIG_FILES = ['cfg/server.cfg', '*/cfg/server.cfg'];
+
+/**
+ * Sends console commands over RCON. One connection is kept per server and
+ * opened on the first command, so servers that were reattached after a
+ * daemon restart work the same as freshly started ones.
+ */
+export class RconManager {
+    private connections: Map<string, Promise<RconClient>> = new Map();
+    private patcher = new ConfigFilePatcher();
+
+    /**
+     * Enable RCON in the game's config before a start. Only Minecraft has a
+     * switch for it; a password is generated when neither the start config nor
+     * server.properties has one.
+     */
+    async configure(serverPath: string, config: RconConfig): Promise<ConfigPatchResult[]> {
+        if (config.protocol !== 'minecraft') {
+            return [];
+        }
+
+        const properties = await this.readProperties(serverPath);
+        const password = config.password || properties['rcon.password'] || randomBytes(18).toString('base64url');
+        const port = config.port || Number(properties['rcon.port']) || MINECRAFT_DEFAULT_PORT;
+
+        return this.patcher.apply(serverPath, [{
+            file: MINECRAFT_PROPERTIES,
+            parser: 'properties',
+            find: {
+                'enable-rcon': 'true',
+                'rcon.port': String(port),
+                'rcon.password': password,
+            },
+            create: true,
+        }], {});
+    }
+
+    async exec(serverId: string, config: RconConfig, server: RconServer, command: string): Promise<string> {
+        // Never retried: the server may have run the command before the connection dropped
+        const client = await this.connect(serverId, config, server);
+        return client.exec(command);
+    }
+
+    disconnect(serverId: string): void {
+        const connection = this.connections.get(serverId);
+        this.connections.delete(serverId);
+        connection?.then(client => client.close(), () => { });
+    }
+
+    private async connect(serverId: string, config: RconConfig, server: RconServer): Promise<RconClient> {
+        // A connection the server closed since the last command (e.g. the game restarted) is replaced
+        let connection = this.connections.get(serverId);
+        if (connection) {
+            const client = await connection.catch(() => null);
+            if (client?.connected) {
+                return client;
+            }
+            if (this.connections.get(serverId) === connection) {
+                this.connections.delete(serverId);
+            }
+        }
+
+        // Concurrent commands share one connection attempt
+        connection = this.resolveSettings(config, server).then(async (settings) => {
+            const client = new RconClient({
+                ...settings,
+                protocol: config.protocol,
+                timeout: (config.timeout || DEFAULT_TIMEOUT) * 1000,
+            });
+            await client.connect();
+            return client;
+        });
+        this.connections.set(serverId, connection);
+
+        try {
+            return await connection;
+        } catch (error) {
+            if (this.connections.get(serverId) === connection) {
+                this.connections.delete(serverId);
+            }
+            throw error;
+        }
+    }
+
+    private async resolveSettings(config: RconConfig, server: RconServer): Promise<RconSettings> {
+        const host = config.host || (server.ip && server.ip !== '0.0.0.0' && server.ip !== '::' ? server.ip : '127.0.0.1');
+
+        if (config.protocol === 'minecraft') {
+            const properties = await this.readProperties(server.serverPath);
+            if (!config.password && properties['enable-rcon'] !== 'true') {
+                throw new RconError('NOT_CONFIGURED', 'RCON is not enabled in server.properties');
+            }
+            const password = config.password || properties['rcon.password'];
+            if (!password) {
+                throw new RconError('NOT_CONFIGURED', 'No RCON password set in server.properties');
+            }
+            return { host, port: config.port || Number(properties['rcon.port']) || MINECRAFT_DEFAULT_PORT, password };
+        }
+
+        // Source RCON listens on the game port over TCP
+        const port = config.port || server.port;
+        if (!port) {
+            throw new RconError('NOT_CONFIGURED', 'Server has no port to reach RCON on');
+        }
+        const password = config.password || this.findSourcePassword(server.command) || await this.readSourcePassword(server.serverPath);
+        if (!password) {
+            throw new RconError('NOT_CONFIGURED', 'No rcon_password in the startup command or server.cfg');
+        }
+        return { host, port, password };
+    }
+
+    // +rcon_password "secret" on the command line
+    private findSourcePassword(command: string): string | undefined {
+        const match = command.match(/\+rcon_password\s+(?:"([^"]*)"|'([^']*)'|(\S+))/);
+        return match ? match[1] ?? match[2] ?? match[3] : undefined;
+    }
+
+    private async readSourcePassword(serverPath: string): Promise<string | undefined> {
+        for (const pattern of SOURCE_CONFIG_FILES) {
+            for (const file of await this.expand(serverPath, pattern)) {
+                const content = await this.patcher.readFile(serverPath, file).catch(() => null);
+                if (content === null) {
+                    continue;
+                }
+                const match = content.match(/^\s*rcon_password\s+(?:"([^"]*)"|(\S+))/m);
+                const password = match ? match[1] ?? match[2] : undefined;
+                if (password) {
+                    return password;
+                }
+            }
+        }
+        return undefined;
+    }
+
+    // Expand a leading "*/" to every directory of the server; paths stay relative to it
+    private async expand(serverPath: string, pattern: string): Promise<string[]> {
+        if (!pattern.startsWith('*/')) {
+            return [pattern];
+        }
+        const entries = await fs.readdir(serverPath, { withFileTypes: true }).catch(() => []);
+        return entries
+            .filter(entry => entry.isDirectory())
+            .map(entry => path.join(entry.name, pattern.slice(2)));
+    }
+
+    // Read like the patcher writes, so a symlinked server.properties can't hand over a host file
+    private async readProperties(serverPath: string): Promise<Record<string, string>> {
+        const properties: Record<string, string> = {};
+        const content = await this.patcher.readFile(serverPath, MINECRAFT_PROPERTIES).catch(() => null);
+        if (content === null) {
+            return properties;
+        }
+        for (const line of content.split(/\r?\n/)) {
+            const match = line.match(/^\s*([^#!=:\s][^=:]*?)\s*[=:]\s*(.*)$/);
+            if (match) {
+                properties[match[1]] = match[2].trim();
+            }
+        }
+        return properties;
+    }
+}
@@ -0,0 +1,164 @@
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+// Give up looking for a match after this many years (e.g. "0 0 30 2 *" never fires)
+const SEARCH_LIMIT_YEARS = 5;
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+    { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+/**
+ * Standard 5-field cron expression (minute hour day-of-month month day-of-week),
+ * evaluated in the daemon's local time. Supports lists, ranges, steps, month and
+ * day names and the usual @daily style macros. As in Vixie cron, when both day
+ * fields are restricted a day matches if either of them does.
+ */
+export class CronExpression {
+    readonly source: string;
+    private minutes: Set<number>;
+    private hours: Set<number>;
+    private daysOfMonth: Set<number>;
+    private months: Set<number>;
+    private daysOfWeek: Set<number>;
+    private dayOfMonthRestricted: boolean;
+    private dayOfWeekRestricted: boolean;
+
+    constructor(expression: string) {
+        this.source = expression.trim();
+
+        const normalized = MACROS[this.source.toLowerCase()] || this.source;
+        const fields = normalized.split(/\s+/);
+        if (fields.length !== 5) {
+            throw new Error(`Invalid cron expression "${expression}": expected 5 fields, got ${fields.length}`);
+        }
+
+        const parsed = fields.map((field, index) => this.parseField(field, FIELDS[index]));
+        [this.minutes, this.hours, this.daysOfMonth, this.months, this.daysOfWeek] = parsed;
+
+        // 7 is an alias for Sunday
+        if (this.daysOfWeek.delete(7)) {
+            this.daysOfWeek.add(0);
+        }
+
+        this.dayOfMonthRestricted = fields[2] !== '*';
+        this.dayOfWeekRestricted = fields[4] !== '*';
+    }
+
+    /**
+     * First matching minute strictly after `after`, or null if the expression
+     * can never match.
+     */
+    next(after: Date = new Date()): Date | null {
+        const date = new Date(after);
+        date.setSeconds(0, 0);
+        date.setMinutes(date.getMinutes() + 1);
+
+        const limit = after.getFullYear() + SEARCH_LIMIT_YEARS;
+
+        while (date.getFullYear() <= limit) {
+            if (!this.months.has(date.getMonth() + 1)) {
+                date.setMonth(date.getMonth() + 1, 1);
+                date.setHours(0, 0);
+                continue;
+            }
+            if (!this.matchesDay(date)) {
+                date.setDate(date.getDate() + 1);
+                date.setHours(0, 0);
+                continue;
+            }
+            if (!this.hours.has(date.getHours())) {
+                date.setHours(date.getHours() + 1, 0);
+                continue;
+            }
+            if (!this.minutes.has(date.getMinutes())) {
+                date.setMinutes(date.getMinutes() + 1);
+                continue;
+            }
+            return date;
+        }
+
+        return null;
+    }
+
+    private matchesDay(date: Date): boolean {
+        const dayOfMonth = this.daysOfMonth.has(date.getDate());
+        const dayOfWeek = this.daysOfWeek.has(date.getDay());
+
+        if (this.dayOfMonthRestricted && this.dayOfWeekRestricted) {
+            return dayOfMonth || dayOfWeek;
+        }
+        return dayOfMonth && dayOfWeek;
+    }
+
+    private parseField(field: string, spec: FieldSpec): Set<number> {
+        const values = new Set<number>();
+
+        for (const part of field.split(',')) {
+            const [range, stepText] = part.split('/');
+            const step = stepText === undefined ? 1 : Number(stepText);
+            if (!Number.isInteger(step) || step < 1) {
+                throw new Error(`Invalid step "${stepText}" in ${spec.name} field`);
+            }
+
+            let start: number;
+            let end: number;
+            if (range === '*') {
+                start = spec.min;
+                end = spec.max;
+            } else if (range.includes('-')) {
+                const [from, to] = range.split('-');
+                start = this.parseValue(from, spec);
+                end = this.parseValue(to, spec);
+            } else {
+                start = this.parseValue(range, spec);
+                // "5/15" means every 15 starting at 5
+                end = stepText === undefined ? start : spec.max;
+            }
+
+            if (start > end) {
+                throw new Error(`Invalid range "${range}" in ${spec.name} field`);
+            }
+
+            for (let value = start; value <= end; value += step) {
+                values.add(value);
+            }
+        }
+
+        return values;
+    }
+
+    private parseValue(text: string, spec: FieldSpec): number {
+        const nameIndex = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+        // Month names are 1-based, day names 0-based
+        const value = nameIndex !== -1
+            ? nameIndex + (spec.names === MONTH_NAMES ? 1 : 0)
+            : /^\d+$/.test(text) ? Number(text) : NaN;
+
+        if (Number.isNaN(value) || value < spec.min || value > spec.max) {
+            throw new Error(`Invalid value "${text}" in ${spec.name} field (expected ${spec.min}-${spec.max})`);
+        }
+        return value;
+    }
+}
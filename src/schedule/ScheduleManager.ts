@@ -0,0 +1,406 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { ProcessManager } from '../process/ProcessManager.js';
+import { BackupManager } from '../backup/BackupManager.js';
+import { CronExpression } from './CronExpression.js';
+
+interface ActionBase {
+    delay?: number;              // Seconds to wait after the previous action before running this one
+    continueOnFailure?: boolean; // Keep going with the next action if this one fails
+}
+
+export interface CommandAction extends ActionBase {
+    type: 'command';
+    command: string;
+}
+
+export interface PowerAction extends ActionBase {
+    type: 'power';
+    action: 'start' | 'stop' | 'restart' | 'kill';
+}
+
+export interface BackupAction extends ActionBase {
+    type: 'backup';
+    ignoredFiles?: string[];
+    s3?: any;
+}
+
+export type ScheduleAction = CommandAction | PowerAction | BackupAction;
+
+export interface Schedule {
+    id: string;
+    serverId: string;
+    name?: string;
+    cron: string;
+    enabled: boolean;
+    onlyWhenOnline?: boolean;    // Skip runs while the server is offline
+    actions: ScheduleAction[];
+    lastRunAt?: string;
+    lastResult?: ScheduleRunResult;
+}
+
+export interface ScheduleActionResult {
+    index: number;
+    type: ScheduleAction['type'];
+    success: boolean;
+    error?: string;
+    response?: string;       // Server's answer to a command sent over RCON
+    // Backups started by a schedule were never announced by the panel, so report what was created
+    backup?: { backupId: string; size: number; storagePath: string; isS3: boolean };
+}
+
+export interface ScheduleRunResult {
+    scheduleId: string;
+    serverId: string;
+    trigger: 'cron' | 'manual';
+    status: 'success' | 'failed' | 'skipped';
+    reason?: string;
+    startedAt: string;
+    finishedAt: string;
+    actions: ScheduleActionResult[];
+}
+
+export type ScheduleInfo = Schedule & { nextRunAt: string | null };
+
+// setTimeout overflows past ~24.8 days; longer waits are re-armed in steps
+const MAX_TIMER_DELAY_MS = 2 ** 31 - 1;
+
+/**
+ * Runs panel-defined schedules on the daemon itself. Schedules are persisted
+ * in the state directory and keep firing while the panel is unreachable; each
+ * run's result goes to onResult so it can be reported (and is kept as
+ * lastResult for the panel to fetch later).
+ */
+export class ScheduleManager {
+    private storePath: string;
+    private processManager: ProcessManager;
+    private backupManager: BackupManager;
+    private powerAction: (serverId: string, action: PowerAction['action']) => Promise<void>;
+    private onResult: (result: ScheduleRunResult) => void;
+    private schedules: Map<string, Schedule> = new Map();
+    private timers: Map<string, NodeJS.Timeout> = new Map();
+    private running: Set<string> = new Set();
+
+    constructor(
+        stateDirectory: string,
+        processManager: ProcessManager,
+        backupManager: BackupManager,
+        powerAction: (serverId: string, action: PowerAction['action']) => Promise<void>,
+        onResult: (result: ScheduleRunResult) => void
+    ) {
+        this.storePath = path.join(stateDirectory, 'schedules.json');
+        this.processManager = processManager;
+        this.backupManager = backupManager;
+        this.powerAction = powerAction;
+        this.onResult = onResult;
+    }
+
+    async load(): Promise<void> {
+        let stored: Schedule[] = [];
+        try {
+            stored = JSON.parse(await fs.readFile(this.storePath, 'utf-8'));
+        } catch {
+            // No schedules yet
+        }
+
+        for (const schedule of stored) {
+            try {
+                this.validate(schedule);
+            } catch (error) {
+                console.error(`[Schedule] Ignoring invalid schedule ${schedule.id}:`, error);
+                continue;
+            }
+            this.schedules.set(schedule.id, schedule);
+            this.arm(schedule);
+        }
+
+        if (this.schedules.size > 0) {
+            console.log(`[Schedule] Loaded ${this.schedules.size} schedule(s)`);
+        }
+    }
+
+    stop(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+    }
+
+    list(serverId?: string): ScheduleInfo[] {
+        return Array.from(this.schedules.values())
+            .filter(schedule => !serverId || schedule.serverId === serverId)
+            .map(schedule => this.describe(schedule));
+    }
+
+    async save(input: Schedule): Promise<ScheduleInfo> {
+        const schedule: Schedule = {
+            ...input,
+            enabled: input.enabled !== false,
+            // Run history belongs to the daemon, not the panel's copy
+            lastRunAt: this.schedules.get(input.id)?.lastRunAt,
+            lastResult: this.schedules.get(input.id)?.lastResult,
+        };
+        this.validate(schedule);
+
+        this.disarm(schedule.id);
+        this.schedules.set(schedule.id, schedule);
+        this.arm(schedule);
+        await this.persist();
+
+        return this.describe(schedule);
+    }
+
+    async delete(scheduleId: string): Promise<void> {
+        this.disarm(scheduleId);
+        if (this.schedules.delete(scheduleId)) {
+            await this.persist();
+        }
+    }
+
+    // Replace every schedule of a server with the panel's current set
+    async sync(serverId: string, schedules: Schedule[]): Promise<ScheduleInfo[]> {
+        const incoming = schedules.map(schedule => ({ ...schedule, serverId }));
+        for (const schedule of incoming) {
+            this.validate(schedule);
+        }
+
+        const previous = new Map(this.list(serverId).map(schedule => [schedule.id, schedule]));
+
+        await this.removeServer(serverId, false);
+        for (const schedule of incoming) {
+            const history = previous.get(schedule.id);
+            const merged: Schedule = {
+                ...schedule,
+                enabled: schedule.enabled !== false,
+                lastRunAt: history?.lastRunAt,
+                lastResult: history?.lastResult,
+            };
+            this.schedules.set(merged.id, merged);
+            this.arm(merged);
+        }
+        await this.persist();
+
+        return this.list(serverId);
+    }
+
+    async removeServer(serverId: string, persist: boolean = true): Promise<void> {
+        for (const schedule of Array.from(this.schedules.values())) {
+            if (schedule.serverId === serverId) {
+                this.disarm(schedule.id);
+                this.schedules.delete(schedule.id);
+            }
+        }
+        if (persist) {
+            await this.persist();
+        }
+    }
+
+    // Run a schedule now, regardless of its cron expression or enabled flag
+    trigger(scheduleId: string): void {
+        const schedule = this.schedules.get(scheduleId);
+        if (!schedule) {
+            throw new Error('Schedule not found');
+        }
+        this.execute(schedule, 'manual').catch((error) => {
+            console.error(`[Schedule] Run of ${scheduleId} failed:`, error);
+        });
+    }
+
+    private validate(schedule: Schedule): void {
+        if (!schedule.id || !schedule.serverId) {
+            throw new Error('Schedule must have an id and a serverId');
+        }
+
+        new CronExpression(schedule.cron);
+
+        if (!Array.isArray(schedule.actions) || schedule.actions.length === 0) {
+            throw new Error('Schedule must have at least one action');
+        }
+        for (const action of schedule.actions) {
+            if (action.delay !== undefined && (typeof action.delay !== 'number' || action.delay < 0)) {
+                throw new Error(`Invalid delay "${action.delay}"`);
+            }
+            switch (action.type) {
+                case 'command':
+                    if (!action.command) {
+                        throw new Error('Command actions need a command');
+                    }
+                    break;
+                case 'power':
+                    if (!['start', 'stop', 'restart', 'kill'].includes(action.action)) {
+                        throw new Error(`Invalid power action "${action.action}"`);
+                    }
+                    break;
+                case 'backup':
+                    break;
+                default:
+                    throw new Error(`Unknown action type "${(action as ScheduleAction).type}"`);
+            }
+        }
+    }
+
+    private describe(schedule: Schedule): ScheduleInfo {
+        const next = schedule.enabled ? new CronExpression(schedule.cron).next() : null;
+        return { ...schedule, nextRunAt: next ? next.toISOString() : null };
+    }
+
+    private arm(schedule: Schedule): void {
+        if (!schedule.enabled) {
+            return;
+        }
+
+        const next = new CronExpression(schedule.cron).next();
+        if (!next) {
+            console.warn(`[Schedule] ${schedule.id} (${schedule.cron}) will never run`);
+            return;
+        }
+        this.armAt(schedule, next);
+    }
+
+    private armAt(schedule: Schedule, runAt: Date): void {
+        const delay = runAt.getTime() - Date.now();
+
+        const timer = setTimeout(() => {
+            this.timers.delete(schedule.id);
+            if (delay > MAX_TIMER_DELAY_MS) {
+                this.armAt(schedule, runAt);
+                return;
+            }
+            this.arm(schedule);
+            this.execute(schedule, 'cron').catch((error) => {
+                console.error(`[Schedule] Run of ${schedule.id} failed:`, error);
+            });
+        }, Math.max(0, Math.min(delay, MAX_TIMER_DELAY_MS)));
+
+        this.timers.set(schedule.id, timer);
+    }
+
+    private disarm(scheduleId: string): void {
+        const timer = this.timers.get(scheduleId);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(scheduleId);
+        }
+    }
+
+    private async execute(schedule: Schedule, trigger: ScheduleRunResult['trigger']): Promise<void> {
+        const startedAt = new Date().toISOString();
+        const finish = (status: ScheduleRunResult['status'], actions: ScheduleActionResult[], reason?: string) =>
+            this.report(schedule, {
+                scheduleId: schedule.id,
+                serverId: schedule.serverId,
+                trigger,
+                status,
+                reason,
+                startedAt,
+                finishedAt: new Date().toISOString(),
+                actions,
+            });
+
+        if (this.running.has(schedule.id)) {
+            await finish('skipped', [], 'Previous run is still in progress');
+            return;
+        }
+        if (schedule.onlyWhenOnline && !this.processManager.isServerRunning(schedule.serverId)) {
+            await finish('skipped', [], 'Server is offline');
+            return;
+        }
+
+        console.log(`[Schedule] Running ${schedule.name || schedule.id} for server ${schedule.serverId}`);
+        this.running.add(schedule.id);
+
+        const results: ScheduleActionResult[] = [];
+        let failed = false;
+        try {
+            for (const [index, action] of schedule.actions.entries()) {
+                if (action.delay) {
+                    await new Promise(resolve => setTimeout(resolve, action.delay! * 1000));
+                }
+
+                // The schedule was changed or deleted while we were waiting
+                if (this.schedules.get(schedule.id) !== schedule) {
+                    await finish('failed', results, 'Schedule was changed or deleted during the run');
+                    return;
+                }
+
+                const result = await this.runAction(schedule.serverId, action, index);
+                results.push(result);
+
+                if (!result.success) {
+                    failed = true;
+                    if (!action.continueOnFailure) {
+                        break;
+                    }
+                }
+            }
+
+            await finish(failed ? 'failed' : 'success', results);
+        } finally {
+            this.running.delete(schedule.id);
+        }
+    }
+
+    private async runAction(serverId: string, action: ScheduleAction, index: number): Promise<ScheduleActionResult> {
+        const result: ScheduleActionResult = { index, type: action.type, success: true };
+
+        try {
+            switch (action.type) {
+                case 'command': {
+                    const { response } = await this.processManager.sendCommand(serverId, action.command);
+                    if (response !== undefined) {
+                        result.response = response;
+                    }
+                    break;
+                }
+
+                case 'power':
+                    // Goes through the daemon so it queues with the panel's own power actions
+                    await this.powerAction(serverId, action.action);
+                    break;
+
+                case 'backup': {
+                    const backupId = randomUUID();
+                    const backup = await this.backupManager.createBackup({
+                        serverId,
+                        backupId,
+                        ignoredFiles: action.ignoredFiles,
+                        s3: action.s3,
+                    }, () => { });
+                    result.backup = { backupId, size: backup.size, storagePath: backup.path, isS3: backup.isS3 };
+                    break;
+                }
+            }
+        } catch (error) {
+            result.success = false;
+            result.error = error instanceof Error ? error.message : 'Unknown error';
+        }
+
+        return result;
+    }
+
+    private async report(schedule: Schedule, result: ScheduleRunResult): Promise<void> {
+        if (result.status === 'failed') {
+            console.error(`[Schedule] ${schedule.name || schedule.id} failed: ${result.reason || result.actions.find(a => !a.success)?.error}`);
+        }
+
+        // Skipped runs don't count as runs
+        if (result.status !== 'skipped') {
+            schedule.lastRunAt = result.startedAt;
+        }
+        schedule.lastResult = result;
+        if (this.schedules.get(schedule.id) === schedule) {
+            await this.persist().catch((error) => {
+                console.error('[Schedule] Failed to save schedules:', error);
+            });
+        }
+
+        this.onResult(result);
+    }
+
+    private async persist(): Promise<void> {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        // May contain S3 credentials for backup actions
+        await fs.writeFile(this.storePath, JSON.stringify(Array.from(this.schedules.values()), null, 2), { mode: 0o600 });
+    }
+}